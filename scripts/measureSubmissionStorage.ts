@@ -0,0 +1,21 @@
+/**
+ * Prints how much space the chunked submission format saves over storing raw
+ * submissions, for synthetic histories of a few sizes.
+ *
+ * Usage: npm run measure:storage
+ * (The script runs with `scripts/` as its root so the extension's Vite config is not loaded.)
+ */
+import { encodeChunks } from '../src/core/submissionCodec';
+import { generateSyntheticHistory } from '../src/test/syntheticHistory';
+
+const SIZES = [1_000, 5_000, 10_000, 25_000];
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1e6).toFixed(2)} MB`;
+
+for (const size of SIZES) {
+    const submissions = generateSyntheticHistory(size);
+    const rawBytes = JSON.stringify(submissions).length;
+    const encodedBytes = JSON.stringify(encodeChunks(submissions)).length;
+    const saving = Math.round((1 - encodedBytes / rawBytes) * 100);
+    console.log(`${size.toLocaleString('en-US')} submissions: ${formatMegabytes(rawBytes)} raw -> ${formatMegabytes(encodedBytes)} chunked (${saving}% smaller)`);
+}
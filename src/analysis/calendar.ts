@@ -0,0 +1,65 @@
+// The hour at which one activity day ends and the next begins, so late-night sessions
+// count toward the day they started on.
+let dayRolloverHour = 0;
+
+// The first day of the week, as a `getDay()` value (0 = Sunday).
+let weekStart = 1;
+
+/**
+ * Sets the day boundary and week start used when bucketing submissions into days and weekdays.
+ * @param settings The hour (0-23) a day rolls over, and the first day of the week (0 = Sunday).
+ */
+export function setCalendarSettings(settings: { dayRolloverHour: number; weekStart: number }) {
+    dayRolloverHour = Number.isInteger(settings.dayRolloverHour) && settings.dayRolloverHour >= 0 && settings.dayRolloverHour < 24 ?
+        settings.dayRolloverHour :
+        0;
+    weekStart = Number.isInteger(settings.weekStart) && settings.weekStart >= 0 && settings.weekStart < 7 ?
+        settings.weekStart :
+        1;
+}
+
+/**
+ * Moves a date back by the rollover hour, so its calendar fields give the activity day
+ * it counts toward. With a 4 AM rollover, 1 AM on a Saturday reads as Friday.
+ */
+export function getActivityDate(date: Date): Date {
+    if (dayRolloverHour === 0) return date;
+    const shifted = new Date(date);
+    shifted.setHours(shifted.getHours() - dayRolloverHour);
+    return shifted;
+}
+
+/**
+ * Returns midnight of the activity day a date counts toward.
+ */
+export function getActivityDay(date: Date): Date {
+    const activityDate = getActivityDate(date);
+    return new Date(activityDate.getFullYear(), activityDate.getMonth(), activityDate.getDate());
+}
+
+/**
+ * Returns the position (0-6) of a date's activity day within the week.
+ */
+export function getWeekdayIndex(date: Date): number {
+    return (getActivityDate(date).getDay() - weekStart + 7) % 7;
+}
+
+/**
+ * Lists the `getDay()` values in display order, starting with the first day of the week.
+ */
+export function getWeekdayOrder(): number[] {
+    return Array.from({ length: 7 }, (_, i) => (weekStart + i) % 7);
+}
+
+/**
+ * Turns a span of whole calendar days into the exact window of time whose submissions
+ * count toward them, starting and ending at the rollover hour.
+ * @param firstDay Any time on the first day.
+ * @param lastDay Any time on the last day.
+ */
+export function toActivityWindow(firstDay: Date, lastDay: Date): { start: Date; end: Date } {
+    const start = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate(), dayRolloverHour);
+    const end = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1, dayRolloverHour);
+    end.setMilliseconds(-1);
+    return { start, end };
+}
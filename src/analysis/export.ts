@@ -0,0 +1,198 @@
+import type { ProcessedData, ProblemMetadata, RawSubmission, CachedMetadata, FilterSpec } from '../types';
+import { getStatusLabel } from './stats/getSubmissionSignatureStats';
+import { filterSubmissions } from './filters';
+
+// Identifies a JSON export so an import can reject unrelated files.
+const EXPORT_FORMAT = 'leetstats-export';
+const EXPORT_VERSION = 1;
+
+/** A single submission as written to an export file. */
+export interface ExportRow {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+    timestamp: number;
+    status: number;
+    statusLabel: string;
+    lang: string;
+    difficulty: ProblemMetadata['difficulty'] | 'Unknown';
+    topics: string[];
+}
+
+/** The envelope written to a JSON export. */
+export interface ExportFile {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    username: string;
+    exportedAt: string;
+    /** Whether the time-range or difficulty filters were applied, i.e. the file may have gaps. */
+    filtered: boolean;
+    submissions: ExportRow[];
+}
+
+/** A JSON export converted back into the shapes the extension caches. */
+export interface ParsedExport {
+    username: string;
+    filtered: boolean;
+    submissions: RawSubmission[];
+    metadata: CachedMetadata;
+}
+
+/**
+ * Raised when a file selected for import is not a valid leetStats export.
+ */
+export class ExportFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExportFormatError';
+    }
+}
+
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+    'id', 'title', 'slug', 'date', 'timestamp', 'status', 'statusLabel', 'lang', 'difficulty', 'topics',
+];
+
+/**
+ * Joins every submission with its problem metadata, oldest first, optionally applying
+ * the same time-range and difficulty filters as the activity charts.
+ * @param processedData The main processed data object.
+ * @param filters The filters to apply, or undefined to export everything.
+ * @returns One row per submission.
+ */
+export function getExportRows(
+    processedData: ProcessedData,
+    filters: FilterSpec = {}
+): ExportRow[] {
+    return filterSubmissions(processedData.submissions, filters)
+        .map((sub): ExportRow => ({
+            id: sub.id,
+            title: sub.title,
+            slug: sub.titleSlug,
+            // `sub.date` is shifted into the chosen timezone; the export keeps the real instant.
+            date: new Date(parseInt(sub.timestamp, 10) * 1000).toISOString(),
+            timestamp: parseInt(sub.timestamp, 10),
+            status: sub.status,
+            statusLabel: getStatusLabel(sub.status),
+            lang: sub.lang,
+            difficulty: sub.metadata?.difficulty || 'Unknown',
+            topics: sub.metadata?.topics || [],
+        }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Serialises export rows as pretty-printed JSON, wrapped in an envelope that lets the
+ * file be imported again.
+ * @param rows The rows to write.
+ * @param username The user the history belongs to.
+ * @param filtered Whether filters were applied to the rows.
+ */
+export function toExportJSON(rows: ExportRow[], username: string, filtered: boolean): string {
+    const file: ExportFile = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        username,
+        exportedAt: new Date().toISOString(),
+        filtered,
+        submissions: rows,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+const DIFFICULTIES: ProblemMetadata['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Narrows parsed JSON to a plain object, so its fields can be read safely.
+ * @returns The value, or null if it is not an object.
+ */
+function asRecord(value: unknown): { [key: string]: unknown } | null {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as { [key: string]: unknown } : null;
+}
+
+/**
+ * Checks that an export row has every field a `RawSubmission` needs, with the right types.
+ */
+function isValidExportRow(value: unknown): value is ExportRow {
+    const row = asRecord(value);
+    return !!row &&
+        isString(row.id) && /^\d+$/.test(row.id) &&
+        isString(row.title) &&
+        isString(row.slug) && row.slug.length > 0 &&
+        Number.isInteger(row.timestamp) &&
+        Number.isInteger(row.status) &&
+        isString(row.lang) &&
+        (row.difficulty === 'Unknown' || DIFFICULTIES.includes(row.difficulty as ProblemMetadata['difficulty'])) &&
+        Array.isArray(row.topics) && row.topics.every(isString);
+}
+
+/**
+ * Parses and validates a JSON export, converting its rows back into raw submissions
+ * and the problem metadata they carry.
+ * @param text The contents of the export file.
+ * @returns The parsed export.
+ * @throws ExportFormatError if the file is not a valid leetStats export.
+ */
+export function parseExportFile(text: string): ParsedExport {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (err) {
+        throw new ExportFormatError('The file is not valid JSON.');
+    }
+
+    const file = asRecord(parsed);
+    if (!file || file.format !== EXPORT_FORMAT || !Array.isArray(file.submissions)) {
+        throw new ExportFormatError('The file is not a leetStats JSON export.');
+    }
+    if (typeof file.version === 'number' && file.version > EXPORT_VERSION) {
+        throw new ExportFormatError('The file was exported by a newer version of leetStats.');
+    }
+    if (!isString(file.username) || file.username.length === 0) {
+        throw new ExportFormatError('The export does not say which user it belongs to.');
+    }
+
+    const submissions: RawSubmission[] = [];
+    const metadata: CachedMetadata = {};
+    file.submissions.forEach((row: unknown, i: number) => {
+        if (!isValidExportRow(row)) {
+            throw new ExportFormatError(`Submission ${i + 1} in the export is malformed.`);
+        }
+        submissions.push({
+            id: row.id,
+            title: row.title,
+            titleSlug: row.slug,
+            status: row.status,
+            lang: row.lang,
+            timestamp: String(row.timestamp),
+        });
+        if (row.difficulty !== 'Unknown') {
+            metadata[row.slug] = { slug: row.slug, difficulty: row.difficulty, topics: row.topics };
+        }
+    });
+
+    return { username: file.username, filtered: file.filtered !== false, submissions, metadata };
+}
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break.
+ */
+function escapeCSVField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialises export rows as CSV with a header row. Topics are joined with `;`.
+ */
+export function toExportCSV(rows: ExportRow[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of rows) {
+        lines.push(CSV_COLUMNS.map(column => {
+            const value = row[column];
+            return escapeCSVField(Array.isArray(value) ? value.join(';') : String(value));
+        }).join(','));
+    }
+    return lines.join('\r\n');
+}
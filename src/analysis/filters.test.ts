@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { ProcessedSubmission } from '../types';
+import { filterSubmissions, getFilterWindow, matchesFilter, withoutDateFilter } from './filters';
+import { setCalendarSettings } from './calendar';
+
+function makeSubmission(id: number, date: Date, overrides: Partial<ProcessedSubmission> = {}): ProcessedSubmission {
+    return {
+        id: String(id),
+        title: `Problem ${id}`,
+        titleSlug: `problem-${id}`,
+        status: 10,
+        lang: 'python3',
+        timestamp: String(Math.floor(date.getTime() / 1000)),
+        date,
+        metadata: { slug: `problem-${id}`, difficulty: 'Easy', topics: ['array'] },
+        ...overrides,
+    };
+}
+
+const now = new Date(2024, 5, 15, 12, 0);
+
+afterEach(() => {
+    setCalendarSettings({ dayRolloverHour: 0, weekStart: 1 });
+});
+
+describe('getFilterWindow', () => {
+    it('is unbounded without a date filter, or for All Time', () => {
+        expect(getFilterWindow({}, now)).toEqual({ start: null, end: null });
+        expect(getFilterWindow({ timeRange: 'All Time' }, now)).toEqual({ start: null, end: null });
+    });
+
+    it('starts a preset range at midnight the given number of days back', () => {
+        expect(getFilterWindow({ timeRange: 'Last 30 Days' }, now)).toEqual({ start: new Date(2024, 4, 16), end: null });
+        expect(getFilterWindow({ timeRange: 'Last 365 Days' }, now).start).toEqual(new Date(2023, 5, 16));
+    });
+
+    it('starts a preset range at the rollover hour of the first activity day', () => {
+        setCalendarSettings({ dayRolloverHour: 4, weekStart: 1 });
+        expect(getFilterWindow({ timeRange: 'Last 30 Days' }, now).start).toEqual(new Date(2024, 4, 16, 4));
+        // At 2 AM it is still yesterday's activity day, so the range reaches back one day further.
+        expect(getFilterWindow({ timeRange: 'Last 30 Days' }, new Date(2024, 5, 15, 2)).start).toEqual(new Date(2024, 4, 15, 4));
+    });
+
+    it('prefers a custom window over the preset range', () => {
+        const dateWindow: [Date, Date] = [new Date(2024, 0, 1), new Date(2024, 0, 31, 23, 59, 59, 999)];
+        expect(getFilterWindow({ timeRange: 'Last 30 Days', dateWindow }, now)).toEqual({ start: dateWindow[0], end: dateWindow[1] });
+    });
+
+    it('treats Custom without a window as all time', () => {
+        expect(getFilterWindow({ timeRange: 'Custom' }, now)).toEqual({ start: null, end: null });
+    });
+});
+
+describe('withoutDateFilter', () => {
+    it('drops only the date bounds', () => {
+        const spec = {
+            timeRange: 'Last 90 Days' as const,
+            dateWindow: [new Date(2024, 0, 1), new Date(2024, 1, 1)] as [Date, Date],
+            difficulty: 'Hard' as const,
+            languages: ['cpp'],
+        };
+        expect(withoutDateFilter(spec)).toEqual({ difficulty: 'Hard', languages: ['cpp'] });
+        expect(spec.timeRange).toBe('Last 90 Days');
+    });
+});
+
+describe('matchesFilter', () => {
+    const sub = makeSubmission(1, new Date(2024, 5, 10, 9, 0), {
+        lang: 'cpp',
+        status: 11,
+        metadata: { slug: 'problem-1', difficulty: 'Medium', topics: ['graph', 'bfs'] },
+    });
+
+    it('matches everything with an empty filter', () => {
+        expect(matchesFilter(sub, {})).toBe(true);
+    });
+
+    it('matches any of several selected languages, topics and statuses', () => {
+        expect(matchesFilter(sub, { languages: ['python3', 'cpp'] })).toBe(true);
+        expect(matchesFilter(sub, { languages: ['python3', 'java'] })).toBe(false);
+        expect(matchesFilter(sub, { topics: ['array', 'bfs'] })).toBe(true);
+        expect(matchesFilter(sub, { topics: ['array', 'dp'] })).toBe(false);
+        expect(matchesFilter(sub, { statuses: [10, 11] })).toBe(true);
+        expect(matchesFilter(sub, { statuses: [10] })).toBe(false);
+    });
+
+    it('treats empty selections as no filter', () => {
+        expect(matchesFilter(sub, { languages: [], topics: [], statuses: [] })).toBe(true);
+    });
+
+    it('requires every filter to match', () => {
+        expect(matchesFilter(sub, { difficulty: 'Medium', languages: ['cpp'], topics: ['graph'] })).toBe(true);
+        expect(matchesFilter(sub, { difficulty: 'Hard', languages: ['cpp'], topics: ['graph'] })).toBe(false);
+        expect(matchesFilter(sub, { difficulty: 'All', languages: ['cpp'] })).toBe(true);
+    });
+
+    it('leaves submissions without metadata out of difficulty and topic filters', () => {
+        const unknown = makeSubmission(2, new Date(2024, 5, 10), { metadata: undefined });
+        expect(matchesFilter(unknown, { difficulty: 'Easy' })).toBe(false);
+        expect(matchesFilter(unknown, { topics: ['array'] })).toBe(false);
+        expect(matchesFilter(unknown, { languages: ['python3'] })).toBe(true);
+    });
+
+    it('includes both ends of a custom range', () => {
+        const dateWindow: [Date, Date] = [new Date(2024, 5, 1), new Date(2024, 5, 10, 23, 59, 59, 999)];
+        const at = (date: Date) => matchesFilter(makeSubmission(3, date), { dateWindow });
+
+        expect(at(new Date(2024, 5, 1, 0, 0))).toBe(true);
+        expect(at(new Date(2024, 5, 10, 23, 59, 59, 999))).toBe(true);
+        expect(at(new Date(2024, 4, 31, 23, 59, 59, 999))).toBe(false);
+        expect(at(new Date(2024, 5, 11, 0, 0))).toBe(false);
+    });
+});
+
+describe('filterSubmissions', () => {
+    const submissions = [
+        makeSubmission(1, new Date(2024, 4, 15, 23, 59)),
+        makeSubmission(2, new Date(2024, 4, 16, 0, 0), { lang: 'cpp' }),
+        makeSubmission(3, new Date(2024, 5, 14, 8, 0), { status: 11 }),
+        makeSubmission(4, new Date(2024, 5, 15, 11, 0), { lang: 'java' }),
+    ];
+
+    it('applies a preset range relative to the reference time', () => {
+        expect(filterSubmissions(submissions, { timeRange: 'Last 30 Days' }, now).map(s => s.id)).toEqual(['2', '3', '4']);
+    });
+
+    it('combines the date range with the other filters', () => {
+        const spec = { timeRange: 'Last 30 Days' as const, languages: ['python3', 'cpp'], statuses: [10] };
+        expect(filterSubmissions(submissions, spec, now).map(s => s.id)).toEqual(['2']);
+        expect(filterSubmissions(submissions, withoutDateFilter(spec), now).map(s => s.id)).toEqual(['1', '2']);
+    });
+
+    it('does not modify its input', () => {
+        const copy = [...submissions];
+        filterSubmissions(submissions, { languages: ['java'] }, now);
+        expect(submissions).toEqual(copy);
+    });
+});
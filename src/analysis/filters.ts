@@ -0,0 +1,95 @@
+import type { FilterSpec, ProcessedSubmission, TimeRange } from '../types';
+import { zonedNow } from './timezone';
+import { getActivityDay, toActivityWindow } from './calendar';
+
+const TIME_RANGE_DAYS: { [key in TimeRange]?: number } = {
+    'Last 30 Days': 30,
+    'Last 90 Days': 90,
+    'Last 365 Days': 365,
+};
+
+/**
+ * Calculates where a preset time range starts: the start of the activity day (at the
+ * rollover hour) the given number of days before today's.
+ * @param timeRange The preset range.
+ * @param now The reference time.
+ * @returns The start of the range, or null for 'All Time'.
+ */
+export function getTimeRangeStart(timeRange: TimeRange, now: Date = zonedNow()): Date | null {
+    const days = TIME_RANGE_DAYS[timeRange];
+    if (days === undefined) {
+        return null;
+    }
+    const today = getActivityDay(now);
+    const firstDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+    return toActivityWindow(firstDay, today).start;
+}
+
+/**
+ * Resolves the date bounds of a filter. An explicit bounds wins over a preset range.
+ * @param spec The filter.
+ * @param now The reference time for preset ranges.
+ * @returns The inclusive bounds; null means unbounded on that side.
+ */
+export function getFilterWindow(spec: FilterSpec, now: Date = zonedNow()): { start: Date | null; end: Date | null } {
+    if (spec.dateWindow) {
+        return { start: spec.dateWindow[0], end: spec.dateWindow[1] };
+    }
+    return { start: spec.timeRange ? getTimeRangeStart(spec.timeRange, now) : null, end: null };
+}
+
+/**
+ * Returns a copy of a filter with its date bounds removed, for stats that always span
+ * the whole history (e.g. cumulative totals) but should still respect the other filters.
+ */
+export function withoutDateFilter(spec: FilterSpec): FilterSpec {
+    const { timeRange, dateWindow, ...rest } = spec;
+    return rest;
+}
+
+/**
+ * Checks a single submission against a filter.
+ * @param sub The submission.
+ * @param spec The filter.
+ * @param bounds The filter's resolved date bounds (see `getFilterWindow`).
+ */
+export function matchesFilter(
+    sub: ProcessedSubmission,
+    spec: FilterSpec,
+    bounds: { start: Date | null; end: Date | null } = getFilterWindow(spec)
+): boolean {
+    if (bounds.start && sub.date < bounds.start) return false;
+    if (bounds.end && sub.date > bounds.end) return false;
+
+    if (spec.difficulty && spec.difficulty !== 'All' && sub.metadata?.difficulty !== spec.difficulty) {
+        return false;
+    }
+    if (spec.languages?.length && !spec.languages.includes(sub.lang)) {
+        return false;
+    }
+    if (spec.topics?.length && !sub.metadata?.topics.some(topic => spec.topics!.includes(topic))) {
+        return false;
+    }
+    if (spec.statuses?.length && !spec.statuses.includes(sub.status)) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Returns the submissions in scope for a filter. This is the single place every stats
+ * module decides which submissions count, so all charts agree.
+ * @param submissions The submissions to filter.
+ * @param spec The filter.
+ * @param now The reference time for preset ranges.
+ * @returns A new array; the input is not modified.
+ */
+export function filterSubmissions(
+    submissions: ProcessedSubmission[],
+    spec: FilterSpec,
+    now: Date = zonedNow()
+): ProcessedSubmission[] {
+    const bounds = getFilterWindow(spec, now);
+    return submissions.filter(sub => matchesFilter(sub, spec, bounds));
+}
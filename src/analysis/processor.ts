@@ -1,4 +1,5 @@
 import type { RawSubmission, ProblemMetadata, ProcessedData, ProcessedSubmission } from '../types';
+import { toZonedDate } from './timezone';
 
 /**
  * Processes raw data into a more usable, enriched format. This is the foundation
@@ -16,9 +17,9 @@ export function processData(
     // 1. Create a single, enriched list of submissions. This is our source of truth.
     const submissions: ProcessedSubmission[] = rawSubmissions.map(sub => ({
         ...sub,
-        // Create a Date object in the user's local timezone.
-        // All subsequent .getHours(), .getDay(), etc., will be based on their locale.
-        date: new Date(parseInt(sub.timestamp, 10) * 1000),
+        // Create a Date object in the user's chosen timezone (see setActiveTimeZone).
+        // All subsequent .getHours(), .getDay(), etc., will be based on that zone.
+        date: toZonedDate(new Date(parseInt(sub.timestamp, 10) * 1000)),
         metadata: metadata[sub.titleSlug],
     }));
 
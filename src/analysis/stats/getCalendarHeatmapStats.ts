@@ -0,0 +1,67 @@
+import type { ProcessedData, FilterSpec, CalendarDay, CalendarHeatmapData } from '../../types';
+import { filterSubmissions, withoutDateFilter } from '../filters';
+import { getActivityDay, getWeekdayOrder } from '../calendar';
+import { toDayKey } from '../timezone';
+
+const STATUS_ACCEPTED = 10;
+
+/**
+ * Calculates one cell per day of a year for the calendar heatmap.
+ * @param processedData The main processed data object.
+ * @param filters The current filters; date filters are ignored, the calendar always shows a whole year.
+ * @param year The year to show; defaults to the most recent year with submissions.
+ * @returns The calendar data, or null if there are no submissions at all.
+ */
+export function getCalendarHeatmapStats(
+    processedData: ProcessedData,
+    filters: FilterSpec,
+    year?: number
+): CalendarHeatmapData | null {
+    if (processedData.submissions.length === 0) {
+        return null;
+    }
+
+    const availableYears = Array.from(
+        new Set(processedData.submissions.map(sub => getActivityDay(sub.date).getFullYear()))
+    ).sort((a, b) => b - a);
+
+    if (year === undefined) {
+        year = availableYears[0];
+    }
+    const shownYear = year;
+
+    const weekdayOrder = getWeekdayOrder();
+    const days: CalendarDay[] = [];
+    const daysByKey = new Map<string, CalendarDay>();
+    const firstDay = new Date(year, 0, 1);
+    // The first column is padded, so the year starts on its weekday's row.
+    const firstDayRow = weekdayOrder.indexOf(firstDay.getDay());
+
+    for (let date = firstDay, i = 0; date.getFullYear() === year; i++, date = new Date(year, 0, i + 1)) {
+        const weekday = weekdayOrder.indexOf(date.getDay());
+        const day: CalendarDay = {
+            date,
+            submissions: 0,
+            solved: [],
+            week: Math.floor((i + firstDayRow) / 7),
+            weekday,
+        };
+        days.push(day);
+        daysByKey.set(toDayKey(date), day);
+    }
+
+    const yearSubmissions = filterSubmissions(processedData.submissions, withoutDateFilter(filters))
+        .filter(sub => getActivityDay(sub.date).getFullYear() === shownYear)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const sub of yearSubmissions) {
+        const day = daysByKey.get(toDayKey(getActivityDay(sub.date)));
+        if (!day) continue;
+        day.submissions++;
+        if (sub.status === STATUS_ACCEPTED && !day.solved.some(problem => problem.slug === sub.titleSlug)) {
+            day.solved.push({ slug: sub.titleSlug, title: sub.title, difficulty: sub.metadata?.difficulty });
+        }
+    }
+
+    return { year, availableYears, days, weekdayOrder };
+}
@@ -1,8 +1,8 @@
-import type { ProcessedData, Difficulty, TimeRange, ClockView } from '../../types';
+import type { ProcessedData, FilterSpec, ClockView } from '../../types';
 import { colors } from '../../ui/theme/colors';
+import { filterSubmissions } from '../filters';
+import { getWeekdayIndex, getWeekdayOrder } from '../calendar';
 
-// Constants for time calculations
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 const STATUS_ACCEPTED = 10;
 const GLOW_THRESHOLD = 5; // Min submissions for a bar to be considered for the "best" glow
 
@@ -11,43 +11,28 @@ const HOUR_LABELS = [
     '12 PM', '1 PM', '2 PM', '3 PM', '4 PM', '5 PM', '6 PM', '7 PM', '8 PM', '9 PM', '10 PM', '11 PM'
 ];
 
-// Labels for the X-axis
-const DAY_LABELS_ABBREVIATED = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-const DAY_LABELS_FULL = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+// Labels for the X-axis, indexed by getDay() and reordered to the chosen week start
+const DAY_LABELS_ABBREVIATED = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_LABELS_FULL = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
 /**
  * Calculates all necessary data for the Coding Clock chart based on filters.
  */
 export function getCodingClockStats(
     processedData: ProcessedData,
-    filters: { timeRange: TimeRange; difficulty: Difficulty; clockView: ClockView }
+    filters: FilterSpec & { clockView: ClockView }
 ) {
-    const { submissions } = processedData;
-    const { timeRange, difficulty, clockView } = filters;
-
-    const now = new Date();
-    const filteredSubmissions = submissions.filter(sub => {
-        if (timeRange === 'Last 30 Days') {
-            if (now.getTime() - sub.date.getTime() > 30 * ONE_DAY_MS) return false;
-        } else if (timeRange === 'Last 90 Days') {
-            if (now.getTime() - sub.date.getTime() > 90 * ONE_DAY_MS) return false;
-        } else if (timeRange === 'Last 365 Days') {
-            if (now.getTime() - sub.date.getTime() > 365 * ONE_DAY_MS) return false;
-        }
-
-        if (difficulty !== 'All' && sub.metadata?.difficulty !== difficulty) {
-            return false;
-        }
-
-        return true;
-    });
+    const { clockView } = filters;
+    const filteredSubmissions = filterSubmissions(processedData.submissions, filters);
 
     const isHourView = clockView === 'HourOfDay';
     const numBuckets = isHourView ? 24 : 7;
+    const weekdayOrder = getWeekdayOrder();
     const buckets = Array.from({ length: numBuckets }, () => ({ accepted: 0, failed: 0 }));
 
     for (const sub of filteredSubmissions) {
-        const index = isHourView ? sub.date.getHours() : (sub.date.getDay() + 6) % 7;
+        // Hours are real clock hours; weekdays follow the day rollover, like streaks do.
+        const index = isHourView ? sub.date.getHours() : getWeekdayIndex(sub.date);
         if (sub.status === STATUS_ACCEPTED) {
             buckets[index].accepted++;
         } else {
@@ -70,7 +55,7 @@ export function getCodingClockStats(
     });
 
     return {
-        labels: isHourView ? HOUR_LABELS : DAY_LABELS_ABBREVIATED,
+        labels: isHourView ? HOUR_LABELS : weekdayOrder.map(day => DAY_LABELS_ABBREVIATED[day]),
         datasets: [{
             label: 'Accepted',
             data: buckets.map(b => b.accepted),
@@ -81,7 +66,7 @@ export function getCodingClockStats(
             backgroundColor: colors.background.empty,
         }, ],
         tooltipsData: buckets.map((b, index) => ({
-            label: isHourView ? HOUR_LABELS[index] : DAY_LABELS_FULL[index],
+            label: isHourView ? HOUR_LABELS[index] : DAY_LABELS_FULL[weekdayOrder[index]],
             total: b.accepted + b.failed,
             accepted: b.accepted,
             rate: b.accepted + b.failed > 0 ?
@@ -1,10 +1,35 @@
-import type { ProcessedData, Difficulty, TimeRange, CumulativeView, CumulativeChartStats } from '../../types';
+import type {
+    ProcessedData,
+    ProcessedSubmission,
+    FilterSpec,
+    CumulativeView,
+    CumulativeChartStats,
+    CumulativeForecast,
+    Difficulty,
+    ForecastHorizon,
+    ForecastMilestone,
+} from '../../types';
 import { Chart, TimeScale, LinearScale, PointElement, LineElement, Tooltip, Legend, Filler } from 'chart.js';
 import 'chartjs-adapter-date-fns';
 import { colors } from '../../ui/theme/colors';
+import { filterSubmissions, getFilterWindow, withoutDateFilter } from '../filters';
+import { toDayNumber, zonedNow } from '../timezone';
+import { getActivityDay } from '../calendar';
+import { MILESTONE_NUMBERS } from './getLegacyStats';
 
 Chart.register(TimeScale, LinearScale, PointElement, LineElement, Tooltip, Legend, Filler);
 
+type SolvedDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+// The recent pace covers this many days before today, each weighted half as much as a
+// day PACE_HALF_LIFE_DAYS more recent.
+const PACE_WINDOW_DAYS = 90;
+const PACE_HALF_LIFE_DAYS = 14;
+// The band holds the middle 80% of outcomes, treating each day's solves as independent.
+const CONFIDENCE_Z = 1.28;
+// Milestones further away than this at the recent pace are not worth a date.
+const MAX_MILESTONE_FORECAST_DAYS = 3650;
+
 // Helper to generate a complete date range based on the view (Daily, Monthly, Yearly)
 const generateDateRange = (startDate: Date, endDate: Date, view: CumulativeView): Date[] => {
     const dates: Date[] = [];
@@ -24,14 +49,152 @@ const generateDateRange = (startDate: Date, endDate: Date, view: CumulativeView)
     return dates;
 };
 
+/**
+ * Adds whole days to a midnight date, keeping it at midnight across DST changes.
+ */
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Turns an `rgb(...)` color into a translucent `rgba(...)` one.
+ */
+const withAlpha = (color: string, alpha: number): string =>
+    color.replace(/^rgb\((.*)\)$/, `rgba($1, ${alpha})`);
+
+/**
+ * Estimates the recent pace of first solves for each difficulty, weighting recent days
+ * more heavily. Today is left out, as it is not over yet.
+ * @param sortedSubmissions Submissions sorted by date.
+ * @param today The current activity day.
+ * @returns The weighted mean and variance of problems first solved per day.
+ */
+function getRecentPace(
+    sortedSubmissions: ProcessedSubmission[],
+    today: Date
+): Record<SolvedDifficulty, { perDay: number; variance: number }> {
+    const todayNumber = toDayNumber(today);
+    const dailyCounts: Record<SolvedDifficulty, number[]> = {
+        Easy: new Array(PACE_WINDOW_DAYS).fill(0),
+        Medium: new Array(PACE_WINDOW_DAYS).fill(0),
+        Hard: new Array(PACE_WINDOW_DAYS).fill(0),
+    };
+
+    const solved = new Set<string>();
+    for (const sub of sortedSubmissions) {
+        if (sub.status !== 10 || !sub.metadata || solved.has(sub.titleSlug)) continue;
+        solved.add(sub.titleSlug);
+        const daysAgo = todayNumber - toDayNumber(getActivityDay(sub.date));
+        if (daysAgo >= 1 && daysAgo <= PACE_WINDOW_DAYS) {
+            dailyCounts[sub.metadata.difficulty][daysAgo - 1]++;
+        }
+    }
+
+    // Index i holds the day i + 1 days ago.
+    const weights = Array.from({ length: PACE_WINDOW_DAYS }, (_, i) => Math.pow(0.5, i / PACE_HALF_LIFE_DAYS));
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    const getPace = (counts: number[]) => {
+        const perDay = counts.reduce((sum, count, i) => sum + weights[i] * count, 0) / weightSum;
+        const variance = counts.reduce((sum, count, i) => sum + weights[i] * (count - perDay) ** 2, 0) / weightSum;
+        return { perDay, variance };
+    };
+
+    return { Easy: getPace(dailyCounts.Easy), Medium: getPace(dailyCounts.Medium), Hard: getPace(dailyCounts.Hard) };
+}
+
+/**
+ * Extends the chart past today with the solved counts projected at the recent pace, each
+ * with a confidence band, and dates the next milestones.
+ * @param stats The chart so far, ending today; its labels and datasets are extended in place.
+ * @param sortedSubmissions Submissions sorted by date.
+ * @param filters The difficulty shown, the chart's view, and how far to look ahead.
+ * @returns The forecast's details, for the tooltip and annotations.
+ */
+function addForecast(
+    stats: CumulativeChartStats,
+    sortedSubmissions: ProcessedSubmission[],
+    filters: { difficulty: Difficulty; cumulativeView: CumulativeView; forecastDays: ForecastHorizon }
+): CumulativeForecast {
+    const today = getActivityDay(zonedNow());
+    const pace = getRecentPace(sortedSubmissions, today);
+    const lastIndex = stats.labels.length - 1;
+
+    // Continue the chart's steps up to the horizon, and end exactly on it.
+    const horizonEnd = addDays(today, filters.forecastDays);
+    const futureDates = generateDateRange(new Date(stats.labels[lastIndex]), horizonEnd, filters.cumulativeView).slice(1);
+    if (futureDates.length === 0 || futureDates[futureDates.length - 1] < horizonEnd) {
+        futureDates.push(horizonEnd);
+    }
+    const daysAhead = futureDates.map(date => Math.max(toDayNumber(date) - toDayNumber(today), 0));
+
+    stats.labels.push(...futureDates.map(date => date.toISOString()));
+    stats.datasets.forEach(dataset => dataset.data.push(...futureDates.map(() => null)));
+
+    const currentCounts: Partial<Record<SolvedDifficulty, number>> = {};
+    (['Easy', 'Medium', 'Hard'] as SolvedDifficulty[]).forEach(level => {
+        const dataset = stats.datasets.find(d => d.label === `${level} Solved`);
+        if (!dataset) return;
+        const current = dataset.data[lastIndex] ?? 0;
+        currentCounts[level] = current;
+
+        const { perDay, variance } = pace[level];
+        // Each forecast series starts at the last point of history, so the lines join up.
+        const project = (offset: (days: number) => number) => [
+            ...new Array(lastIndex).fill(null),
+            current,
+            ...daysAhead.map(days => current + perDay * days + offset(days)),
+        ];
+        const spread = (days: number) => CONFIDENCE_Z * Math.sqrt(variance * days);
+        const color = dataset.borderColor;
+        stats.datasets.push(
+            // The band is drawn by filling the high line down to the low one.
+            { label: `${level} Forecast Low`, data: project(days => Math.max(-spread(days), -perDay * days)), borderColor: 'transparent', fill: false, tension: 0, borderWidth: 0 },
+            { label: `${level} Forecast High`, data: project(spread), borderColor: 'transparent', backgroundColor: withAlpha(color, 0.12), fill: '-1', tension: 0, borderWidth: 0 },
+            { label: `${level} Forecast`, data: project(() => 0), borderColor: color, fill: false, tension: 0, borderDash: [6, 4] }
+        );
+    });
+
+    // Date the next milestone of the total (when every difficulty is shown) and of each difficulty.
+    const levels = Object.keys(currentCounts) as SolvedDifficulty[];
+    const series: { difficulty: Difficulty; current: number; perDay: number }[] = levels.map(level => ({
+        difficulty: level,
+        current: currentCounts[level]!,
+        perDay: pace[level].perDay,
+    }));
+    if (filters.difficulty === 'All') {
+        series.unshift({
+            difficulty: 'All',
+            current: levels.reduce((sum, level) => sum + currentCounts[level]!, 0),
+            perDay: levels.reduce((sum, level) => sum + pace[level].perDay, 0),
+        });
+    }
+    const milestones: ForecastMilestone[] = [];
+    series.forEach(({ difficulty, current, perDay }) => {
+        const milestone = MILESTONE_NUMBERS.find(number => number > current);
+        if (!milestone || perDay <= 0) return;
+        const days = Math.ceil((milestone - current) / perDay);
+        if (days > MAX_MILESTONE_FORECAST_DAYS) return;
+        milestones.push({ difficulty, milestone, date: addDays(today, days) });
+    });
+
+    return {
+        startIndex: lastIndex + 1,
+        horizonDays: filters.forecastDays,
+        pacePerDay: { Easy: pace.Easy.perDay, Medium: pace.Medium.perDay, Hard: pace.Hard.perDay },
+        milestones,
+    };
+}
+
 // Main function to process data for the cumulative chart
 export function getCumulativeStats(
     processedData: ProcessedData,
-    filters: { timeRange: TimeRange; difficulty: Difficulty; cumulativeView: CumulativeView }
+    filters: FilterSpec & { cumulativeView: CumulativeView; forecastDays?: ForecastHorizon | null }
 ): CumulativeChartStats | null {
 
-    const { timeRange, difficulty, cumulativeView } = filters;
-    let allSubmissions = processedData.submissions;
+    const { difficulty = 'All', cumulativeView, forecastDays } = filters;
+
+    // Running totals need the whole history, so only the date bounds are left out here;
+    // they decide which part of the history is drawn.
+    const allSubmissions = filterSubmissions(processedData.submissions, withoutDateFilter(filters));
 
     if (allSubmissions.length === 0) {
         return { labels: [], datasets: [] };
@@ -41,33 +204,17 @@ export function getCumulativeStats(
     allSubmissions.sort((a, b) => a.date.getTime() - b.date.getTime());
 
     // --- Determine Chart Start and End Dates ---
-    const today = new Date();
-    let chartStartDate: Date;
-    const chartEndDate = today; // Chart always extends to today
+    const today = zonedNow();
+    const bounds = getFilterWindow(filters, today);
+    const chartEndDate = bounds.end || today; // Chart extends to today unless a window ends earlier
 
-    const getPastDate = (days: number) => {
-        const date = new Date(today);
-        date.setDate(today.getDate() - days);
-        date.setHours(0, 0, 0, 0);
-        return date;
-    };
-
-    switch (timeRange) {
-        case 'Last 30 Days':
-            chartStartDate = getPastDate(30);
-            break;
-        case 'Last 90 Days':
-            chartStartDate = getPastDate(90);
-            break;
-        case 'Last 365 Days':
-            chartStartDate = getPastDate(365);
-            break;
-        case 'All Time':
-        default:
-            chartStartDate = new Date(allSubmissions[0].date);
-            chartStartDate.setHours(0, 0, 0, 0);
-            break;
+    let chartStartDate: Date;
+    if (bounds.start) {
+        chartStartDate = new Date(bounds.start);
+    } else {
+        chartStartDate = new Date(allSubmissions[0].date);
     }
+    chartStartDate.setHours(0, 0, 0, 0);
 
     // Group submissions by the chosen time view
     const groupedData = new Map<string, {
@@ -79,7 +226,7 @@ export function getCumulativeStats(
 
     for (const sub of allSubmissions) { // Group ALL submissions to correctly calculate initial state
         let key: string;
-        const date = sub.date;
+        const date = getActivityDay(sub.date);
 
         if (cumulativeView === 'Daily') {
             key = new Date(date.getFullYear(), date.getMonth(), date.getDate()).toISOString();
@@ -123,7 +270,7 @@ export function getCumulativeStats(
     const allDatesInRange = generateDateRange(normalizedChartStartDate, chartEndDate, cumulativeView);
 
     // Calculate cumulative values *before* the chart's start date to begin the lines correctly
-    const submissionsBeforeStart = allSubmissions.filter(sub => sub.date < normalizedChartStartDate);
+    const submissionsBeforeStart = allSubmissions.filter(sub => getActivityDay(sub.date) < normalizedChartStartDate);
     let cumulativeSubmissions = submissionsBeforeStart.length;
     const solvedEasy = new Set<string>(submissionsBeforeStart.filter(s => s.status === 10 && s.metadata?.difficulty === 'Easy').map(s => s.titleSlug));
     const solvedMedium = new Set<string>(submissionsBeforeStart.filter(s => s.status === 10 && s.metadata?.difficulty === 'Medium').map(s => s.titleSlug));
@@ -153,7 +300,7 @@ export function getCumulativeStats(
         hardData.push(solvedHard.size);
     }
 
-    const datasets = [{
+    const datasets: CumulativeChartStats['datasets'] = [{
         label: 'Total Submissions',
         data: totalSubmissionsData,
         borderColor: colors.background.empty,
@@ -171,5 +318,10 @@ export function getCumulativeStats(
         datasets.push({ label: 'Hard Solved', data: hardData, borderColor: colors.problems.hard, fill: false, tension: 0.4 });
     }
 
-    return { labels, datasets };
+    const stats: CumulativeChartStats = { labels, datasets };
+    // A forecast only makes sense when the chart runs up to today.
+    if (forecastDays && toDayNumber(getActivityDay(chartEndDate)) >= toDayNumber(getActivityDay(today))) {
+        stats.forecast = addForecast(stats, allSubmissions, { difficulty, cumulativeView, forecastDays });
+    }
+    return stats;
 }
\ No newline at end of file
@@ -0,0 +1,234 @@
+import type { ProcessedData, Goal, GoalProgress, GoalHistoryEntry, GoalStats } from '../../types';
+import { getActivityDay, getWeekdayOrder } from '../calendar';
+import { toDayNumber, toZonedDate, zonedNow } from '../timezone';
+import { formatTopicName } from '../../ui/format';
+
+const STATUS_ACCEPTED = 10;
+// Projections assume the pace of this many recent days continues.
+const RECENT_PACE_DAYS = 28;
+
+/** A day on which a matching problem was solved. */
+interface Solve {
+    slug: string;
+    day: Date;
+    dayNumber: number;
+}
+
+/**
+ * Formats a date object as DD/MM/YYYY.
+ */
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('en-GB');
+}
+
+/**
+ * Parses a `YYYY-MM-DD` day as local midnight.
+ */
+function parseDay(value: string): Date | null {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+/**
+ * Adds whole days to a midnight date, keeping it at midnight across DST changes.
+ */
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Describes a goal in words, e.g. "Solve 5 Medium problems per week".
+ */
+export function describeGoal(goal: Goal): string {
+    const subject = [goal.difficulty, goal.topic && formatTopicName(goal.topic)].filter(Boolean).join(' ');
+    const problems = `${goal.target} ${subject ? `${subject} ` : ''}${goal.target === 1 ? 'problem' : 'problems'}`;
+    if (goal.cadence === 'weekly') return `Solve ${problems} per week`;
+    if (goal.cadence === 'monthly') return `Solve ${problems} per month`;
+    const deadline = goal.deadline && parseDay(goal.deadline);
+    return deadline ? `Reach ${problems} solved by ${formatDate(deadline)}` : `Reach ${problems} solved`;
+}
+
+/**
+ * Returns the first day of the week or month containing a day.
+ */
+function getPeriodStart(day: Date, cadence: 'weekly' | 'monthly'): Date {
+    if (cadence === 'monthly') {
+        return new Date(day.getFullYear(), day.getMonth(), 1);
+    }
+    return addDays(day, -getWeekdayOrder().indexOf(day.getDay()));
+}
+
+/**
+ * Returns the first day of the period after the one starting on `start`.
+ */
+function getNextPeriodStart(start: Date, cadence: 'weekly' | 'monthly'): Date {
+    return cadence === 'monthly' ? new Date(start.getFullYear(), start.getMonth() + 1, 1) : addDays(start, 7);
+}
+
+/**
+ * Lists the accepted submissions that count toward a goal, once per problem and day.
+ */
+function getMatchingSolves(processedData: ProcessedData, goal: Goal): Solve[] {
+    const solves: Solve[] = [];
+    for (const [slug, submissions] of processedData.problemMap) {
+        const metadata = submissions[0]?.metadata;
+        if (goal.difficulty && metadata?.difficulty !== goal.difficulty) continue;
+        if (goal.topic && !metadata?.topics.includes(goal.topic)) continue;
+
+        let lastDayNumber: number | null = null;
+        for (const sub of submissions) {
+            if (sub.status !== STATUS_ACCEPTED) continue;
+            const day = getActivityDay(sub.date);
+            const dayNumber = toDayNumber(day);
+            if (dayNumber === lastDayNumber) continue;
+            solves.push({ slug, day, dayNumber });
+            lastDayNumber = dayNumber;
+        }
+    }
+    return solves.sort((a, b) => a.dayNumber - b.dayNumber);
+}
+
+/**
+ * Counts the distinct problems solved between two days, inclusive.
+ */
+function countProblemsSolved(solves: Solve[], firstDay: number, lastDay: number): number {
+    return new Set(solves.filter(solve => solve.dayNumber >= firstDay && solve.dayNumber <= lastDay).map(solve => solve.slug)).size;
+}
+
+/**
+ * Projects the day a count reaches its target, assuming the recent pace continues.
+ * @returns The projected day, or null if there was no recent progress.
+ */
+function projectCompletion(today: Date, remaining: number, recentCount: number): Date | null {
+    if (recentCount === 0) return null;
+    const perDay = recentCount / RECENT_PACE_DAYS;
+    return addDays(today, Math.ceil(remaining / perDay));
+}
+
+/**
+ * Evaluates a weekly or monthly goal: progress in the current period, and a hit or miss
+ * for every finished period since the goal was set.
+ */
+function evaluatePeriodicGoal(
+    goal: Goal & { cadence: 'weekly' | 'monthly' },
+    label: string,
+    solves: Solve[],
+    today: Date
+): { progress: GoalProgress; history: GoalHistoryEntry[] } {
+    const todayNumber = toDayNumber(today);
+    const currentStart = getPeriodStart(today, goal.cadence);
+    const currentEnd = addDays(getNextPeriodStart(currentStart, goal.cadence), -1);
+    const current = countProblemsSolved(solves, toDayNumber(currentStart), todayNumber);
+    const isComplete = current >= goal.target;
+
+    // Distinct solves, not distinct problems: re-solving for practice still shows pace.
+    const recentCount = solves.filter(solve => todayNumber - solve.dayNumber < RECENT_PACE_DAYS).length;
+    const projectedDate = isComplete ? null : projectCompletion(today, goal.target - current, recentCount);
+
+    const history: GoalHistoryEntry[] = [];
+    const createdDay = getActivityDay(toZonedDate(new Date(goal.createdAt)));
+    for (
+        let start = getPeriodStart(createdDay, goal.cadence);
+        toDayNumber(start) < toDayNumber(currentStart);
+        start = getNextPeriodStart(start, goal.cadence)
+    ) {
+        const end = addDays(getNextPeriodStart(start, goal.cadence), -1);
+        const count = countProblemsSolved(solves, toDayNumber(start), toDayNumber(end));
+        history.push({
+            goalId: goal.id,
+            label,
+            periodLabel: goal.cadence === 'weekly' ?
+                `Week of ${formatDate(start)}` :
+                start.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' }),
+            achieved: count >= goal.target,
+            count,
+            target: goal.target,
+            date: end,
+        });
+    }
+
+    return {
+        progress: {
+            goal,
+            label,
+            current,
+            isComplete,
+            projectedDate,
+            endDate: currentEnd,
+            isOnTrack: isComplete || (!!projectedDate && toDayNumber(projectedDate) <= toDayNumber(currentEnd)),
+        },
+        history,
+    };
+}
+
+/**
+ * Evaluates a total goal: problems solved so far, and a hit when the target was reached
+ * or a miss when the deadline passed first.
+ */
+function evaluateTotalGoal(goal: Goal, label: string, solves: Solve[], today: Date): { progress: GoalProgress; history: GoalHistoryEntry[] } {
+    const todayNumber = toDayNumber(today);
+    // The day each problem was first solved, oldest first.
+    const firstSolves = new Map<string, Solve>();
+    solves.forEach(solve => {
+        if (!firstSolves.has(solve.slug)) firstSolves.set(solve.slug, solve);
+    });
+    const firstSolveDays = Array.from(firstSolves.values());
+    const current = firstSolveDays.length;
+    const isComplete = current >= goal.target;
+    const recentCount = firstSolveDays.filter(solve => todayNumber - solve.dayNumber < RECENT_PACE_DAYS).length;
+    const projectedDate = isComplete ? null : projectCompletion(today, goal.target - current, recentCount);
+    const deadline = goal.deadline ? parseDay(goal.deadline) : null;
+
+    const history: GoalHistoryEntry[] = [];
+    const createdDay = getActivityDay(toZonedDate(new Date(goal.createdAt)));
+    const hit = firstSolveDays[goal.target - 1];
+    const deadlineLabel = deadline ? `By ${formatDate(deadline)}` : 'Total';
+    if (hit && (!deadline || hit.dayNumber <= toDayNumber(deadline))) {
+        // A target already met when the goal was set counts as hit that day.
+        const hitDay = hit.dayNumber < toDayNumber(createdDay) ? createdDay : hit.day;
+        history.push({ goalId: goal.id, label, periodLabel: deadlineLabel, achieved: true, count: goal.target, target: goal.target, date: hitDay });
+    } else if (deadline && toDayNumber(deadline) < todayNumber) {
+        const count = firstSolveDays.filter(solve => solve.dayNumber <= toDayNumber(deadline)).length;
+        history.push({ goalId: goal.id, label, periodLabel: deadlineLabel, achieved: false, count, target: goal.target, date: deadline });
+    }
+
+    return {
+        progress: {
+            goal,
+            label,
+            current,
+            isComplete,
+            projectedDate,
+            endDate: deadline,
+            isOnTrack: deadline ?
+                isComplete || (!!projectedDate && toDayNumber(projectedDate) <= toDayNumber(deadline)) :
+                null,
+        },
+        history,
+    };
+}
+
+/**
+ * Evaluates the user's goals against their submission history.
+ * @param processedData The main processed data object.
+ * @param goals The user's goals.
+ * @returns Each goal's progress, and the log of hits and misses.
+ */
+export function getGoalStats(processedData: ProcessedData, goals: Goal[]): GoalStats {
+    const today = getActivityDay(zonedNow());
+    const progress: GoalProgress[] = [];
+    const history: GoalHistoryEntry[] = [];
+
+    for (const goal of goals) {
+        const label = describeGoal(goal);
+        const solves = getMatchingSolves(processedData, goal);
+        const result = goal.cadence === 'total' ?
+            evaluateTotalGoal(goal, label, solves, today) :
+            evaluatePeriodicGoal(goal as Goal & { cadence: 'weekly' | 'monthly' }, label, solves, today);
+        progress.push(result.progress);
+        history.push(...result.history);
+    }
+
+    history.sort((a, b) => b.date.getTime() - a.date.getTime());
+    return { goals: progress, history };
+}
@@ -6,6 +6,9 @@ import type {
   InteractiveChartFilters,
   TooltipData
 } from '../../types';
+import { filterSubmissions, getFilterWindow } from '../filters';
+import { zonedNow } from '../timezone';
+import { getActivityDate, toActivityWindow } from '../calendar';
 
 // === HELPER FUNCTIONS ===
 
@@ -100,7 +103,7 @@ function createChartData(
         labels: [],
         datasets: [],
         aggregationLevel,
-        timeRange: { start: new Date(), end: new Date() }
+        timeRange: { start: zonedNow(), end: zonedNow() }
       };
     }
     const sortedDates = allDates.sort();
@@ -108,7 +111,7 @@ function createChartData(
     endDate = new Date(sortedDates[sortedDates.length - 1]);
   }
 
-  const today = new Date();
+  const today = zonedNow();
   const minDataDate = boundaryDates?.min;
 
   let isSelectionAtTheVeryBeginning = false;
@@ -165,7 +168,7 @@ function createChartData(
       labels: [],
       datasets: [],
       aggregationLevel,
-      timeRange: { start: effectiveDateRange?.start || new Date(), end: effectiveDateRange?.end || new Date() }
+      timeRange: { start: effectiveDateRange?.start || zonedNow(), end: effectiveDateRange?.end || zonedNow() }
     };
   }
 
@@ -356,26 +359,8 @@ function formatDateLabel(dateStr: string, aggregationLevel: 'Daily' | 'Monthly'
 }
 
 /**
- * Calculates the cutoff date based on a time range filter string.
- * @param timeRange The selected time range filter.
- * @returns The calculated cutoff date.
- */
-function getTimeRangeCutoff(timeRange: string): Date {
-  const now = new Date();
-  switch (timeRange) {
-    case 'Last 30 Days':
-      return new Date(now.setDate(now.getDate() - 30));
-    case 'Last 90 Days':
-      return new Date(now.setDate(now.getDate() - 90));
-    case 'Last 365 Days':
-      return new Date(now.setDate(now.getDate() - 365));
-    default:
-      return new Date(0); // All Time
-  }
-}
-
-/**
- * Determines the start and end dates for a given chart label.
+ * Determines the start and end dates for a given chart label. The range runs from the
+ * day rollover hour, so it matches the submissions grouped under that label.
  * @param label The chart label (e.g., '31/07/23' or 'Jul 2023').
  * @param level The aggregation level of the chart.
  * @returns An object with the start and end dates for that label.
@@ -384,24 +369,19 @@ function getDateRangeFromLabel(label: string, level: 'Daily' | 'Monthly' | 'Year
   if (level === 'Daily') {
     const [day, month, shortYear] = label.split('/').map(Number);
     const year = shortYear + 2000;
-    const start = new Date(year, month - 1, day);
-    const end = new Date(year, month - 1, day, 23, 59, 59, 999);
-    return { start, end };
+    const date = new Date(year, month - 1, day);
+    return toActivityWindow(date, date);
   }
   if (level === 'Monthly') {
     const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
     const [monthStr, yearStr] = label.split(' ');
     const month = monthNames.indexOf(monthStr);
     const year = parseInt(yearStr);
-    const start = new Date(year, month, 1);
-    const end = new Date(year, month + 1, 0, 23, 59, 59, 999);
-    return { start, end };
+    return toActivityWindow(new Date(year, month, 1), new Date(year, month + 1, 0));
   }
   // Yearly
   const year = parseInt(label);
-  const start = new Date(year, 0, 1);
-  const end = new Date(year, 11, 31, 23, 59, 59, 999);
-  return { start, end };
+  return toActivityWindow(new Date(year, 0, 1), new Date(year, 11, 31));
 }
 
 // === MAIN EXPORTED FUNCTIONS ===
@@ -423,33 +403,26 @@ export function getInteractiveChartStats(
 
   const minDataDate = new Date(Math.min(...submissions.map(s => s.date.getTime())));
 
-  let filteredSubmissions = submissions;
-  let effectiveDateRange: { start: Date; end: Date } | null = null;
+  // A brushed window takes the place of the preset time range.
+  const spec = filters.brushWindow ? { ...filters, dateWindow: filters.brushWindow } : filters;
+  const filteredSubmissions = filterSubmissions(submissions, spec);
 
-  if (filters.brushWindow) {
-    const [start, end] = filters.brushWindow;
-    filteredSubmissions = submissions.filter(sub => sub.date >= start && sub.date <= end);
-    effectiveDateRange = { start, end };
-  } else if (filters.timeRange !== 'All Time') {
-    const cutoffDate = getTimeRangeCutoff(filters.timeRange);
-    filteredSubmissions = submissions.filter(sub => sub.date >= cutoffDate);
+  const bounds = getFilterWindow(spec);
+  let effectiveDateRange: { start: Date; end: Date } | null = null;
+  if (bounds.start) {
     effectiveDateRange = {
-      start: cutoffDate,
-      end: new Date(Math.max(...submissions.map(s => s.date.getTime())))
+      start: bounds.start,
+      end: bounds.end || new Date(Math.max(...submissions.map(s => s.date.getTime())))
     };
   }
 
-  if (filters.difficulty !== 'All') {
-    filteredSubmissions = filteredSubmissions.filter(sub => sub.metadata?.difficulty === filters.difficulty);
-  }
-
   const aggregationLevel = effectiveDateRange ?
     getAggregationLevelFromDateRange(effectiveDateRange.start, effectiveDateRange.end) :
     getAggregationLevel(filteredSubmissions);
 
   const timeGroups = groupByTimePeriod(filteredSubmissions, aggregationLevel);
 
-  const chartData = createChartData(timeGroups, filters, aggregationLevel, effectiveDateRange, { min: minDataDate, max: new Date() });
+  const chartData = createChartData(timeGroups, filters, aggregationLevel, effectiveDateRange, { min: minDataDate, max: zonedNow() });
 
   return chartData;
 }
@@ -473,7 +446,7 @@ export function getBrushChartData(processedData: ProcessedData): BrushChartData
   allIntervals.forEach(interval => { groupedData[interval] = []; });
 
   submissions.forEach(sub => {
-    const key = getDateKey(sub.date, aggregationLevel);
+    const key = getDateKey(getActivityDate(sub.date), aggregationLevel);
     if (groupedData.hasOwnProperty(key)) {
       groupedData[key].push(sub);
     }
@@ -504,7 +477,9 @@ export function getTooltipData(
 ): TooltipData | null {
   const { submissions } = processedData;
   const dateRange = getDateRangeFromLabel(date, aggregationLevel);
-  const periodSubmissions = submissions.filter(sub => sub.date >= dateRange.start && sub.date <= dateRange.end);
+  // The hovered period replaces the date filter; the other filters still apply so the
+  // tooltip agrees with the bar it describes.
+  const periodSubmissions = filterSubmissions(submissions, { ...filters, dateWindow: [dateRange.start, dateRange.end] });
 
   if (!periodSubmissions.length) {
     return null;
@@ -594,7 +569,7 @@ function getAggregationLevel(submissions: any[], isNavigator: boolean = false):
 function groupByTimePeriod(submissions: any[], level: 'Daily' | 'Monthly' | 'Yearly') {
   const groups: { [key: string]: any[] } = {};
   submissions.forEach(sub => {
-    const key = getDateKey(sub.date, level);
+    const key = getDateKey(getActivityDate(sub.date), level);
     if (!groups[key]) {
       groups[key] = [];
     }
@@ -611,7 +586,7 @@ function groupByTimePeriod(submissions: any[], level: 'Daily' | 'Monthly' | 'Yea
  */
 function getExtendedDateRange(submissions: any[], isNavigator: boolean = false): { start: Date; end: Date } {
   if (!submissions.length) {
-    const today = new Date();
+    const today = zonedNow();
     return { start: today, end: today };
   }
 
@@ -619,7 +594,7 @@ function getExtendedDateRange(submissions: any[], isNavigator: boolean = false):
   let end: Date;
 
   if (isNavigator) {
-    end = new Date(); // Get current date and time
+    end = zonedNow(); // Get current date and time
     end.setHours(23, 59, 59, 999); // Set to the very end of the current day
   } else {
     end = new Date(Math.max(...submissions.map(s => s.date.getTime())));
@@ -1,5 +1,6 @@
-import type { ProcessedData, Difficulty, TimeRange } from '../../types';
+import type { ProcessedData, FilterSpec } from '../../types';
 import { colors } from '../../ui/theme/colors';
+import { filterSubmissions } from '../filters';
 
 const STATUS_ACCEPTED = 10;
 const GLOW_THRESHOLD = 10; // Min submissions for a language to be considered for the "best" glow
@@ -8,27 +9,9 @@ const formatDate = (date: Date) => date.toLocaleDateString(undefined, { year: 'n
 
 export function getLanguageStats(
     processedData: ProcessedData,
-    filters: { timeRange: TimeRange; difficulty: Difficulty }
+    filters: FilterSpec
 ) {
-    const { submissions } = processedData;
-    const { timeRange, difficulty } = filters;
-
-    const now = new Date();
-    const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-
-    const filteredSubmissions = submissions.filter(sub => {
-        const ageMs = now.getTime() - sub.date.getTime();
-
-        if (timeRange === 'Last 30 Days' && ageMs > 30 * ONE_DAY_MS) return false;
-        if (timeRange === 'Last 90 Days' && ageMs > 90 * ONE_DAY_MS) return false;
-        if (timeRange === 'Last 365 Days' && ageMs > 365 * ONE_DAY_MS) return false;
-
-        if (difficulty !== 'All' && sub.metadata?.difficulty !== difficulty) {
-            return false;
-        }
-
-        return true;
-    });
+    const filteredSubmissions = filterSubmissions(processedData.submissions, filters);
 
     // --- EMPTY STATE HANDLING ---
     if (filteredSubmissions.length === 0) {
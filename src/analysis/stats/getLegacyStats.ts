@@ -1,12 +1,24 @@
-import type { ProcessedData, LegacyStats, TrophyData, MilestoneData, RecordData, ProcessedSubmission } from '../../types';
+import type { ProcessedData, LegacyStats, TrophyData, MilestoneData, RecordData, ProcessedSubmission, StreakPeriod, StreakStats } from '../../types';
+import { toDayKey, toDayNumber, zonedNow } from '../timezone';
+import { getActivityDay } from '../calendar';
+
+// Streaks shorter than this are left out of the streak history.
+const DEFAULT_STREAK_HISTORY_MIN_DAYS = 7;
+
+/** The submission and solve counts that earn a milestone. */
+export const MILESTONE_NUMBERS = [1, 10, 50, 100, 500, 1000, 2000, 3000, 4000, 5000];
 
 /**
  * Main function to calculate all legacy stats. Sorts all submissions by date
  * once at the top level to avoid repetitive sorting in helper functions.
  * @param processedData The main processed data object.
+ * @param streakHistoryMinDays The shortest streak listed in the streak history.
  * @returns A LegacyStats object or null if no submissions exist.
  */
-export function getLegacyStats(processedData: ProcessedData): LegacyStats | null {
+export function getLegacyStats(
+  processedData: ProcessedData,
+  streakHistoryMinDays: number = DEFAULT_STREAK_HISTORY_MIN_DAYS
+): LegacyStats | null {
   const { submissions } = processedData;
   if (!submissions.length) {
     return null;
@@ -16,9 +28,10 @@ export function getLegacyStats(processedData: ProcessedData): LegacyStats | null
 
   const trophies = calculateTrophies(processedData, sortedSubmissions);
   const milestones = calculateMilestones(sortedSubmissions);
-  const records = calculateRecords(processedData, sortedSubmissions);
+  const streaks = calculateStreaks(sortedSubmissions, streakHistoryMinDays);
+  const records = calculateRecords(processedData, sortedSubmissions, streaks);
 
-  return { trophies, milestones, records };
+  return { trophies, milestones, records, streaks };
 }
 
 /**
@@ -206,7 +219,6 @@ function calculateTrophies(processedData: ProcessedData, sortedSubmissions: Proc
  */
 function calculateMilestones(sortedSubmissions: ProcessedSubmission[]): MilestoneData[] {
   const milestones: MilestoneData[] = [];
-  const milestoneNumbers = [1, 10, 50, 100, 500, 1000, 2000, 3000, 4000, 5000];
   let totalSubmissions = 0;
   let problemsSolved = new Set<string>();
   let easyCount = 0;
@@ -215,31 +227,31 @@ function calculateMilestones(sortedSubmissions: ProcessedSubmission[]): Mileston
 
   for (const sub of sortedSubmissions) {
     totalSubmissions++;
-    if (milestoneNumbers.includes(totalSubmissions)) {
+    if (MILESTONE_NUMBERS.includes(totalSubmissions)) {
       milestones.push({ type: 'submissions', milestone: totalSubmissions, date: sub.date, problemTitle: sub.title, problemSlug: sub.titleSlug, submissionId: sub.id });
     }
 
     if (sub.status === 10 && !problemsSolved.has(sub.titleSlug)) {
       problemsSolved.add(sub.titleSlug);
       const solvedCount = problemsSolved.size;
-      if (milestoneNumbers.includes(solvedCount)) {
+      if (MILESTONE_NUMBERS.includes(solvedCount)) {
         milestones.push({ type: 'problems_solved', milestone: solvedCount, date: sub.date, problemTitle: sub.title, problemSlug: sub.titleSlug, submissionId: sub.id });
       }
 
       const difficulty = sub.metadata?.difficulty;
       if (difficulty === 'Easy') {
         easyCount++;
-        if (milestoneNumbers.includes(easyCount)) {
+        if (MILESTONE_NUMBERS.includes(easyCount)) {
           milestones.push({ type: 'easy', milestone: easyCount, date: sub.date, problemTitle: sub.title, problemSlug: sub.titleSlug, submissionId: sub.id });
         }
       } else if (difficulty === 'Medium') {
         mediumCount++;
-        if (milestoneNumbers.includes(mediumCount)) {
+        if (MILESTONE_NUMBERS.includes(mediumCount)) {
           milestones.push({ type: 'medium', milestone: mediumCount, date: sub.date, problemTitle: sub.title, problemSlug: sub.titleSlug, submissionId: sub.id });
         }
       } else if (difficulty === 'Hard') {
         hardCount++;
-        if (milestoneNumbers.includes(hardCount)) {
+        if (MILESTONE_NUMBERS.includes(hardCount)) {
           milestones.push({ type: 'hard', milestone: hardCount, date: sub.date, problemTitle: sub.title, problemSlug: sub.titleSlug, submissionId: sub.id });
         }
       }
@@ -252,9 +264,10 @@ function calculateMilestones(sortedSubmissions: ProcessedSubmission[]): Mileston
  * Calculates user records like streaks, breaks, and best periods.
  * @param processedData The main processed data object.
  * @param sortedSubmissions A chronologically sorted array of submissions.
+ * @param streaks The current streaks, from `calculateStreaks`.
  * @returns An array of RecordData objects.
  */
-function calculateRecords(processedData: ProcessedData, sortedSubmissions: any[]): RecordData[] {
+function calculateRecords(processedData: ProcessedData, sortedSubmissions: any[], streaks: StreakStats): RecordData[] {
   const records: RecordData[] = [];
 
   // 1. One Shot Solves
@@ -287,7 +300,27 @@ function calculateRecords(processedData: ProcessedData, sortedSubmissions: any[]
     records.push({ name: 'Longest Streak', mainStat: '—', dateStat: '&nbsp;' });
   }
 
-  // 3. Longest Break
+  // 3. Current Streak
+  if (streaks.currentSubmissionStreak > 0) {
+    records.push({
+      name: 'Current Streak',
+      mainStat: pluralize(streaks.currentSubmissionStreak, 'day'),
+      dateStat: `${streaks.currentSolveStreak}-day solve streak`,
+      isAtRisk: streaks.isAtRisk,
+    });
+  } else {
+    records.push({ name: 'Current Streak', mainStat: '—', dateStat: '&nbsp;' });
+  }
+
+  // 4. Last Solve
+  if (streaks.daysSinceLastSolve !== null) {
+    const mainStat = streaks.daysSinceLastSolve === 0 ? 'Today' : `${pluralize(streaks.daysSinceLastSolve, 'day')} ago`;
+    records.push({ name: 'Last Solve', mainStat, dateStat: `on ${formatDate(streaks.lastSolveDate!)}` });
+  } else {
+    records.push({ name: 'Last Solve', mainStat: '—', dateStat: '&nbsp;' });
+  }
+
+  // 5. Longest Break
   const breakData = calculateLongestBreak(sortedSubmissions);
   if (breakData.breakInMs > 0) {
     records.push({ name: 'Longest Break', mainStat: formatDuration(breakData.breakInMs), dateStat: `on ${formatDate(breakData.date)}` });
@@ -295,26 +328,32 @@ function calculateRecords(processedData: ProcessedData, sortedSubmissions: any[]
     records.push({ name: 'Longest Break', mainStat: '—', dateStat: '&nbsp;' });
   }
 
-  // 4. Busiest Day
-  const dayMap = new Map<string, number>();
+  // 6. Busiest Day
+  const dayMap = new Map<string, { day: Date; count: number }>();
   for (const sub of sortedSubmissions) {
-    const dateKey = sub.date.toDateString();
-    dayMap.set(dateKey, (dayMap.get(dateKey) || 0) + 1);
+    const day = getActivityDay(sub.date);
+    const dateKey = toDayKey(day);
+    const entry = dayMap.get(dateKey);
+    if (entry) {
+      entry.count++;
+    } else {
+      dayMap.set(dateKey, { day, count: 1 });
+    }
   }
-  let busiestDay = '', maxDaySubmissions = 0;
-  for (const [date, count] of dayMap) {
+  let busiestDay: Date | null = null, maxDaySubmissions = 0;
+  for (const { day, count } of dayMap.values()) {
     if (count > maxDaySubmissions) {
       maxDaySubmissions = count;
-      busiestDay = date;
+      busiestDay = day;
     }
   }
-  if (maxDaySubmissions > 0) {
-    records.push({ name: 'Busiest Day', mainStat: pluralize(maxDaySubmissions, 'submission'), dateStat: `on ${formatDate(new Date(busiestDay))}` });
+  if (busiestDay) {
+    records.push({ name: 'Busiest Day', mainStat: pluralize(maxDaySubmissions, 'submission'), dateStat: `on ${formatDate(busiestDay)}` });
   } else {
     records.push({ name: 'Busiest Day', mainStat: '—', dateStat: '&nbsp;' });
   }
 
-  // 5-7. Best Periods
+  // 7-9. Best Periods
   const bestPeriods = calculateBestPeriods(sortedSubmissions);
   if (bestPeriods.bestDay.count > 0) {
     records.push({ name: 'Best Day', mainStat: `${pluralize(bestPeriods.bestDay.count, 'problem')} solved`, dateStat: `on ${formatDate(bestPeriods.bestDay.date)}` });
@@ -358,45 +397,78 @@ function formatMonthYear(date: Date): string {
 }
 
 /**
- * Calculates the longest submission streak in days.
+ * Splits the days with submissions into runs of consecutive days.
  * @param sortedSubmissions A chronologically sorted array of submissions.
- * @returns An object with the streak length and its end date.
+ * @returns The runs, oldest first.
  */
-function calculateLongestStreak(sortedSubmissions: any[]): { length: number; endDate: Date } {
-  if (sortedSubmissions.length === 0) {
-    return { length: 0, endDate: new Date() };
-  }
-  let currentStreak = 0, maxStreak = 0;
-  let lastDate: Date | null = null;
-  let maxStreakEndDate = new Date(), currentStreakEndDate = new Date();
+function getStreakPeriods(sortedSubmissions: ProcessedSubmission[]): StreakPeriod[] {
+  const periods: StreakPeriod[] = [];
+  let current: StreakPeriod | null = null;
 
   for (const sub of sortedSubmissions) {
-    const currentDate = new Date(sub.date.getFullYear(), sub.date.getMonth(), sub.date.getDate());
-    if (lastDate) {
-      const dayDiff = Math.floor((currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
+    const day = getActivityDay(sub.date);
+    if (current) {
+      // Day numbers, not elapsed time: a DST change makes some days 23 or 25 hours long.
+      const dayDiff = toDayNumber(day) - toDayNumber(current.endDate);
+      if (dayDiff === 0) continue;
       if (dayDiff === 1) {
-        currentStreak++;
-        currentStreakEndDate = currentDate;
-      } else if (dayDiff > 1) {
-        if (currentStreak > maxStreak) {
-          maxStreak = currentStreak;
-          maxStreakEndDate = currentStreakEndDate;
-        }
-        currentStreak = 1;
-        currentStreakEndDate = currentDate;
+        current.length++;
+        current.endDate = day;
+        continue;
       }
-    } else {
-      currentStreak = 1;
-      currentStreakEndDate = currentDate;
     }
-    lastDate = currentDate;
+    current = { length: 1, startDate: day, endDate: day };
+    periods.push(current);
   }
+  return periods;
+}
 
-  if (currentStreak > maxStreak) {
-    maxStreak = currentStreak;
-    maxStreakEndDate = currentStreakEndDate;
+/**
+ * Calculates the longest submission streak in days.
+ * @param sortedSubmissions A chronologically sorted array of submissions.
+ * @returns An object with the streak length and its end date.
+ */
+function calculateLongestStreak(sortedSubmissions: ProcessedSubmission[]): { length: number; endDate: Date } {
+  let longest = { length: 0, endDate: new Date() };
+  for (const period of getStreakPeriods(sortedSubmissions)) {
+    if (period.length > longest.length) {
+      longest = { length: period.length, endDate: period.endDate };
+    }
   }
-  return { length: maxStreak, endDate: maxStreakEndDate };
+  return longest;
+}
+
+/**
+ * Calculates the streaks in progress, how long ago the last solve was, and the history
+ * of long streaks. A streak that ended yesterday still counts as current, since today
+ * can extend it.
+ * @param sortedSubmissions A chronologically sorted array of submissions.
+ * @param historyMinDays The shortest streak listed in the history.
+ * @returns The streak stats.
+ */
+function calculateStreaks(sortedSubmissions: ProcessedSubmission[], historyMinDays: number): StreakStats {
+  const today = toDayNumber(getActivityDay(zonedNow()));
+  const submissionPeriods = getStreakPeriods(sortedSubmissions);
+  const solvePeriods = getStreakPeriods(sortedSubmissions.filter(sub => sub.status === 10));
+
+  // Returns the length of the last run if it reaches today or yesterday.
+  const getCurrentLength = (periods: StreakPeriod[]) => {
+    const last = periods[periods.length - 1];
+    return last && today - toDayNumber(last.endDate) <= 1 ? last.length : 0;
+  };
+
+  const lastSubmissionPeriod = submissionPeriods[submissionPeriods.length - 1];
+  const lastSolvePeriod = solvePeriods[solvePeriods.length - 1];
+  const currentSubmissionStreak = getCurrentLength(submissionPeriods);
+
+  return {
+    currentSubmissionStreak,
+    currentSolveStreak: getCurrentLength(solvePeriods),
+    daysSinceLastSolve: lastSolvePeriod ? Math.max(0, today - toDayNumber(lastSolvePeriod.endDate)) : null,
+    lastSolveDate: lastSolvePeriod ? lastSolvePeriod.endDate : null,
+    isAtRisk: currentSubmissionStreak > 0 && toDayNumber(lastSubmissionPeriod.endDate) < today,
+    history: submissionPeriods.filter(period => period.length >= historyMinDays).reverse(),
+  };
 }
 
 /**
@@ -433,8 +505,8 @@ function calculateBestPeriods(submissions: any[]) {
   const yearMap = new Map<string, Set<string>>();
 
   acceptedSubs.forEach(sub => {
-    const date = sub.date;
-    const dayKey = date.toISOString().split('T')[0];
+    const date = getActivityDay(sub.date);
+    const dayKey = toDayKey(date);
     const monthKey = `${date.getFullYear()}-${date.getMonth() + 1}`;
     const yearKey = `${date.getFullYear()}`;
 
@@ -451,7 +523,8 @@ function calculateBestPeriods(submissions: any[]) {
   let bestDay = { count: 0, date: new Date() };
   dayMap.forEach((set, dayKey) => {
     if (set.size > bestDay.count) {
-      bestDay = { count: set.size, date: new Date(dayKey) };
+      const [year, month, day] = dayKey.split('-').map(Number);
+      bestDay = { count: set.size, date: new Date(year, month - 1, day) };
     }
   });
 
@@ -0,0 +1,60 @@
+import type { ProcessedData, ProblemAttempt, ProblemDetailData } from '../../types';
+import { getStatusLabel } from './getSubmissionSignatureStats';
+import { getActivityDay } from '../calendar';
+import { toDayNumber } from '../timezone';
+
+const STATUS_ACCEPTED = 10;
+
+/**
+ * Builds the attempt timeline of a single problem.
+ * @param processedData The main processed data object.
+ * @param slug The problem's title slug.
+ * @returns The problem's details, or null if it was never attempted.
+ */
+export function getProblemDetailStats(processedData: ProcessedData, slug: string): ProblemDetailData | null {
+    const submissions = processedData.problemMap.get(slug);
+    if (!submissions || submissions.length === 0) {
+        return null;
+    }
+
+    const firstAcceptedIndex = submissions.findIndex(sub => sub.status === STATUS_ACCEPTED);
+    const firstAccepted = firstAcceptedIndex >= 0 ? submissions[firstAcceptedIndex] : null;
+    // Solving again on the same day is part of the first solve, not a re-solve.
+    let lastSolvedDay = firstAccepted ? toDayNumber(getActivityDay(firstAccepted.date)) : 0;
+    let resolveCount = 0;
+
+    const attempts = submissions.map((sub, i): ProblemAttempt => {
+        let isResolve = false;
+        if (firstAccepted && i > firstAcceptedIndex && sub.status === STATUS_ACCEPTED) {
+            const day = toDayNumber(getActivityDay(sub.date));
+            if (day > lastSolvedDay) {
+                isResolve = true;
+                resolveCount++;
+                lastSolvedDay = day;
+            }
+        }
+        return {
+            id: sub.id,
+            date: sub.date,
+            status: sub.status,
+            statusLabel: getStatusLabel(sub.status),
+            lang: sub.lang,
+            sinceLastAttemptMs: i > 0 ? sub.date.getTime() - submissions[i - 1].date.getTime() : null,
+            isResolve,
+        };
+    });
+
+    const first = submissions[0];
+    return {
+        slug,
+        title: first.title,
+        difficulty: first.metadata?.difficulty,
+        topics: first.metadata?.topics || [],
+        attempts,
+        firstAttemptDate: first.date,
+        firstAcceptedDate: firstAccepted ? firstAccepted.date : null,
+        timeToFirstAcceptedMs: firstAccepted ? firstAccepted.date.getTime() - first.date.getTime() : null,
+        attemptsToFirstAccepted: firstAccepted ? firstAcceptedIndex + 1 : null,
+        resolveCount,
+    };
+}
@@ -0,0 +1,101 @@
+import type { ProcessedData, FilterSpec, ProblemSummary, ProblemSortKey, ProcessedSubmission } from '../../types';
+import { filterSubmissions } from '../filters';
+import { getActivityDay } from '../calendar';
+import { toDayNumber } from '../timezone';
+
+const STATUS_ACCEPTED = 10;
+const DIFFICULTY_ORDER: { [key: string]: number } = { Easy: 0, Medium: 1, Hard: 2 };
+
+/**
+ * Summarises every attempted problem, most recently attempted first. Only submissions
+ * that pass the filters count, so e.g. a time range limits attempts to that range.
+ * @param processedData The main processed data object.
+ * @param filters The current filters.
+ * @returns One summary per problem with at least one matching submission.
+ */
+export function getProblemListStats(processedData: ProcessedData, filters: FilterSpec = {}): ProblemSummary[] {
+    const submissionsBySlug = new Map<string, ProcessedSubmission[]>();
+    for (const sub of filterSubmissions(processedData.submissions, filters)) {
+        const problemSubmissions = submissionsBySlug.get(sub.titleSlug) || [];
+        problemSubmissions.push(sub);
+        submissionsBySlug.set(sub.titleSlug, problemSubmissions);
+    }
+
+    const summaries: ProblemSummary[] = [];
+    for (const [slug, submissions] of submissionsBySlug) {
+        submissions.sort((a, b) => a.date.getTime() - b.date.getTime());
+        const first = submissions[0];
+        const firstAccepted = submissions.find(sub => sub.status === STATUS_ACCEPTED);
+        summaries.push({
+            slug,
+            title: first.title,
+            difficulty: first.metadata?.difficulty,
+            topics: first.metadata?.topics || [],
+            attempts: submissions.length,
+            isSolved: !!firstAccepted,
+            firstTryAccepted: first.status === STATUS_ACCEPTED,
+            firstAttemptDate: first.date,
+            lastAttemptDate: submissions[submissions.length - 1].date,
+            daysToSolve: firstAccepted ?
+                toDayNumber(getActivityDay(firstAccepted.date)) - toDayNumber(getActivityDay(first.date)) :
+                null,
+            languages: Array.from(new Set(submissions.map(sub => sub.lang))).sort(),
+        });
+    }
+    return summaries.sort((a, b) => b.lastAttemptDate.getTime() - a.lastAttemptDate.getTime());
+}
+
+/**
+ * Sorts problem summaries by a column. Missing values (unknown difficulty, unsolved
+ * problems' days to solve) always sort last, whichever the direction.
+ * @param summaries The summaries to sort; the array is not modified.
+ * @param key The column to sort by.
+ * @param direction The sort direction.
+ * @returns A new sorted array.
+ */
+export function sortProblemSummaries(
+    summaries: ProblemSummary[],
+    key: ProblemSortKey,
+    direction: 'asc' | 'desc'
+): ProblemSummary[] {
+    const getValue = (summary: ProblemSummary): string | number | null => {
+        switch (key) {
+            case 'title': return summary.title.toLowerCase();
+            case 'difficulty': return summary.difficulty ? DIFFICULTY_ORDER[summary.difficulty] : null;
+            case 'attempts': return summary.attempts;
+            case 'firstTryAccepted': return Number(summary.firstTryAccepted);
+            case 'firstAttemptDate': return summary.firstAttemptDate.getTime();
+            case 'lastAttemptDate': return summary.lastAttemptDate.getTime();
+            case 'daysToSolve': return summary.daysToSolve;
+        }
+    };
+    const sign = direction === 'asc' ? 1 : -1;
+
+    return [...summaries].sort((a, b) => {
+        const valueA = getValue(a);
+        const valueB = getValue(b);
+        if (valueA === null || valueB === null) {
+            return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+        }
+        if (valueA < valueB) return -sign;
+        if (valueA > valueB) return sign;
+        return 0;
+    });
+}
+
+/**
+ * Keeps the summaries whose title, slug, topics or languages contain the search text.
+ * @param summaries The summaries to search.
+ * @param query The search text; matching ignores case.
+ * @returns The matching summaries, in their original order.
+ */
+export function searchProblemSummaries(summaries: ProblemSummary[], query: string): ProblemSummary[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return summaries;
+    return summaries.filter(summary =>
+        summary.title.toLowerCase().includes(needle) ||
+        summary.slug.includes(needle) ||
+        summary.topics.some(topic => topic.includes(needle)) ||
+        summary.languages.some(lang => lang.toLowerCase().includes(needle))
+    );
+}
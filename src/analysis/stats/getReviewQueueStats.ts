@@ -0,0 +1,146 @@
+import type { ProcessedData, ProcessedSubmission, ReviewItem, ReviewQueueData } from '../../types';
+import { getActivityDay } from '../calendar';
+import { toDayNumber, zonedNow } from '../timezone';
+
+const STATUS_ACCEPTED = 10;
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// Reviews below this quality count as forgotten and restart the schedule.
+const PASSING_QUALITY = 3;
+const UPCOMING_WINDOW_DAYS = 7;
+const DEFAULT_DAILY_LIMIT = 10;
+
+/** The state of one problem's schedule while its history is replayed. */
+interface ScheduleState {
+    repetitions: number;
+    intervalDays: number;
+    easeFactor: number;
+    /** The day number the current interval counts from. */
+    lastReviewDay: number;
+}
+
+/**
+ * Rates how well a problem was recalled on a 0-5 scale, from the failed attempts it took
+ * to get accepted. A clean solve is a perfect recall.
+ */
+function getRecallQuality(failedAttempts: number): number {
+    return Math.max(5 - failedAttempts, 1);
+}
+
+/**
+ * Applies one SM-2 review to a schedule.
+ * @param state The schedule to update in place.
+ * @param quality The recall quality, 0-5.
+ * @param day The day number of the review.
+ */
+function applyReview(state: ScheduleState, quality: number, day: number) {
+    if (quality < PASSING_QUALITY) {
+        state.repetitions = 0;
+        state.intervalDays = 1;
+    } else {
+        state.repetitions++;
+        if (state.repetitions === 1) state.intervalDays = 1;
+        else if (state.repetitions === 2) state.intervalDays = 6;
+        else state.intervalDays = Math.round(state.intervalDays * state.easeFactor);
+    }
+    state.easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        state.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    );
+    state.lastReviewDay = day;
+}
+
+/**
+ * Replays a solved problem's history as SM-2 reviews. Every day with an accepted
+ * submission is a review, rated by the failures since the previous one, so solving a
+ * problem again reschedules it as soon as the new submission is fetched. Failing again
+ * without a solve counts as a lapse, which brings the problem back the next day.
+ * @param submissions The problem's submissions, oldest first.
+ * @returns The schedule, or null if the problem was never solved.
+ */
+function replaySchedule(submissions: ProcessedSubmission[]): (ScheduleState & { solveCount: number; lastSolvedDay: Date }) | null {
+    const state: ScheduleState = { repetitions: 0, intervalDays: 0, easeFactor: INITIAL_EASE_FACTOR, lastReviewDay: 0 };
+    let solveCount = 0;
+    let lastSolvedDay: Date | null = null;
+    let failuresSinceReview = 0;
+    let lastFailureDay: number | null = null;
+
+    for (const sub of submissions) {
+        const activityDay = getActivityDay(sub.date);
+        const day = toDayNumber(activityDay);
+        if (sub.status !== STATUS_ACCEPTED) {
+            failuresSinceReview++;
+            lastFailureDay = day;
+            continue;
+        }
+        // Solving again on the same day is part of the same review.
+        if (solveCount > 0 && day === state.lastReviewDay) {
+            failuresSinceReview = 0;
+            continue;
+        }
+        applyReview(state, getRecallQuality(failuresSinceReview), day);
+        solveCount++;
+        lastSolvedDay = activityDay;
+        failuresSinceReview = 0;
+        lastFailureDay = null;
+    }
+
+    if (!lastSolvedDay) {
+        return null;
+    }
+    if (lastFailureDay !== null && lastFailureDay > state.lastReviewDay) {
+        applyReview(state, 0, lastFailureDay);
+    }
+    return { ...state, solveCount, lastSolvedDay };
+}
+
+/**
+ * Builds today's spaced-repetition review list from every solved problem's history,
+ * using the SM-2 algorithm. Problems that took more attempts get shorter intervals and
+ * lower ease factors, so they come back sooner.
+ * @param processedData The main processed data object.
+ * @param dailyLimit The most problems proposed for one day.
+ * @returns The review queue.
+ */
+export function getReviewQueueStats(processedData: ProcessedData, dailyLimit: number = DEFAULT_DAILY_LIMIT): ReviewQueueData {
+    const todayDate = getActivityDay(zonedNow());
+    const today = toDayNumber(todayDate);
+    const dueItems: ReviewItem[] = [];
+    let upcomingCount = 0;
+
+    for (const [slug, submissions] of processedData.problemMap) {
+        const schedule = replaySchedule(submissions);
+        if (!schedule) continue;
+
+        const dueDay = schedule.lastReviewDay + schedule.intervalDays;
+        if (dueDay > today) {
+            if (dueDay - today <= UPCOMING_WINDOW_DAYS) upcomingCount++;
+            continue;
+        }
+
+        dueItems.push({
+            slug,
+            title: submissions[0].title,
+            difficulty: submissions[0].metadata?.difficulty,
+            dueDate: new Date(todayDate.getFullYear(), todayDate.getMonth(), todayDate.getDate() - (today - dueDay)),
+            daysOverdue: today - dueDay,
+            intervalDays: schedule.intervalDays,
+            easeFactor: schedule.easeFactor,
+            solveCount: schedule.solveCount,
+            lastSolvedDate: schedule.lastSolvedDay,
+        });
+    }
+
+    // Overdue relative to the interval: a day late on a 1-day interval matters more than
+    // on a 60-day one. Harder problems (lower ease) break ties.
+    dueItems.sort((a, b) =>
+        (b.daysOverdue / b.intervalDays) - (a.daysOverdue / a.intervalDays) ||
+        a.easeFactor - b.easeFactor
+    );
+
+    return {
+        due: dueItems.slice(0, dailyLimit),
+        dueCount: dueItems.length,
+        upcomingCount,
+    };
+}
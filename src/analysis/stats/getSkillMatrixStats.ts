@@ -1,4 +1,6 @@
-import type { ProcessedData, SkillMatrixData, TimeSeriesPoint, TimeRange, ProcessedSubmission, Difficulty } from '../../types';
+import type { ProcessedData, SkillMatrixData, TimeSeriesPoint, ProcessedSubmission, FilterSpec } from '../../types';
+import { filterSubmissions, getFilterWindow, withoutDateFilter } from '../filters';
+import { toDayKey } from '../timezone';
 
 /**
  * Calculates metrics from pre-grouped submissions for a specific topic.
@@ -87,8 +89,8 @@ function generateTimeSeriesForTopic(submissions: ProcessedSubmission[]) {
       problemGroups.hard.get(slug)!.push(sub);
     }
 
-    const currentDate = sub.date.toISOString().split('T')[0];
-    const nextDate = (i + 1 < sortedSubs.length) ? sortedSubs[i + 1].date.toISOString().split('T')[0] : null;
+    const currentDate = toDayKey(sub.date);
+    const nextDate = (i + 1 < sortedSubs.length) ? toDayKey(sortedSubs[i + 1].date) : null;
 
     if (currentDate !== nextDate) {
       const overallProblemsSolved = Array.from(problemGroups.overall.values())
@@ -152,40 +154,39 @@ function getValidMetricValue(
  * Calculates all statistics for the skill matrix view.
  * @param data The main processed data object.
  * @param filters An object containing the current filter settings.
- * @param skillMatrixTimeRange Optional override for the time range filter.
+ * @param dateOverride Optional time range or custom window that replaces the shared date filter.
  * @returns A SkillMatrixData object or null if no data is available.
  */
 export function getSkillMatrixStats(
   data: ProcessedData,
-  filters: { timeRange: TimeRange; difficulty: Difficulty },
-  skillMatrixTimeRange?: 'Last 30 Days' | 'Last 90 Days' | 'Last 365 Days' | 'All Time'
+  filters: FilterSpec,
+  dateOverride?: Pick<FilterSpec, 'timeRange' | 'dateWindow'>
 ): SkillMatrixData | null {
   if (!data.submissions.length) {
     return null;
   }
 
-  const effectiveTimeRange = skillMatrixTimeRange || filters.timeRange;
-  const timeRangeStart = getTimeRangeStart(effectiveTimeRange);
+  // The matrix's own time range, when given, replaces the shared date filter.
+  const tableFilters: FilterSpec = dateOverride ? { ...withoutDateFilter(filters), ...dateOverride } : filters;
+  const tableWindow = getFilterWindow(tableFilters);
+  const timeRangeStart = tableWindow.start || new Date(0);
 
-  // Filter submissions for the main table metrics based on the selected time range and difficulty
-  const tableSubmissions = data.submissions.filter(sub => {
-    const passesTime = sub.date >= timeRangeStart;
-    const passesDiff = filters.difficulty === 'All' || sub.metadata?.difficulty === filters.difficulty;
-    return passesTime && passesDiff && sub.metadata?.topics?.length;
-  });
+  // Filter submissions for the main table metrics based on the selected time range and other filters
+  const tableSubmissions = filterSubmissions(data.submissions, tableFilters)
+    .filter(sub => sub.metadata?.topics?.length);
 
-  // Filter submissions for the time series charts (all time, filtered by difficulty)
-  const chartSubmissions = data.submissions.filter(sub => {
-    const passesDiff = filters.difficulty === 'All' || sub.metadata?.difficulty === filters.difficulty;
-    return passesDiff && sub.metadata?.topics?.length;
-  });
+  // Filter submissions for the time series charts (all time, other filters still applied)
+  const chartSubmissions = filterSubmissions(data.submissions, withoutDateFilter(filters))
+    .filter(sub => sub.metadata?.topics?.length);
 
   // Determine the set of unique topics from the filtered table submissions
   const topicsSet = new Set<string>();
   tableSubmissions.forEach(sub =>
     sub.metadata?.topics?.forEach(topic => topicsSet.add(topic))
   );
-  const unsortedTopics = Array.from(topicsSet);
+  // Submissions match a topic filter through any of their tags, so drop the unselected ones.
+  const unsortedTopics = Array.from(topicsSet)
+    .filter(topic => !filters.topics?.length || filters.topics.includes(topic));
 
   // Pre-group all chart submissions by topic for efficient time series generation
   const submissionsByTopic = new Map<string, ProcessedSubmission[]>();
@@ -257,25 +258,7 @@ export function getSkillMatrixStats(
     topics,
     metrics,
     timeSeriesData,
-    timeRangeStart: timeRangeStart.toISOString()
+    timeRangeStart: timeRangeStart.toISOString(),
+    timeRangeEnd: tableWindow.end?.toISOString()
   };
 }
-
-/**
- * Calculates the start date for a given time range filter.
- * @param timeRange The time range string.
- * @returns The calculated start date.
- */
-function getTimeRangeStart(timeRange: TimeRange): Date {
-  const now = new Date();
-  switch (timeRange) {
-    case 'Last 30 Days':
-      return new Date(now.setDate(now.getDate() - 30));
-    case 'Last 90 Days':
-      return new Date(now.setDate(now.getDate() - 90));
-    case 'Last 365 Days':
-      return new Date(now.setDate(now.getDate() - 365));
-    default: // All Time
-      return new Date(0);
-  }
-}
\ No newline at end of file
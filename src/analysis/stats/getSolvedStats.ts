@@ -8,12 +8,15 @@ export interface SolvedStats {
   easySolved: number;
   mediumSolved: number;
   hardSolved: number;
+  /** Solved problems whose metadata is missing, so their difficulty is unknown. */
+  unknownSolved: number;
   totalSubmissions: number;
 }
 
 /**
  * Calculates the total number of solved problems, the breakdown by difficulty,
- * and the total number of submissions.
+ * and the total number of submissions. Problems without metadata are counted
+ * in an "unknown" bucket so the total still matches LeetCode's.
  * @param processedData The main processed data object.
  * @returns An object containing the calculated stats.
  */
@@ -23,6 +26,7 @@ export function getSolvedStats(processedData: ProcessedData): SolvedStats {
   let easySolved = 0;
   let mediumSolved = 0;
   let hardSolved = 0;
+  let unknownSolved = 0;
 
   // Iterate over the map of unique problems to count solved stats.
   for (const subs of problemMap.values()) {
@@ -36,11 +40,13 @@ export function getSolvedStats(processedData: ProcessedData): SolvedStats {
         mediumSolved++;
       } else if (difficulty === 'Hard') {
         hardSolved++;
+      } else {
+        unknownSolved++;
       }
     }
   }
 
-  const totalSolved = easySolved + mediumSolved + hardSolved;
+  const totalSolved = easySolved + mediumSolved + hardSolved + unknownSolved;
   const totalSubmissions = submissions.length;
 
   return {
@@ -48,6 +54,7 @@ export function getSolvedStats(processedData: ProcessedData): SolvedStats {
     easySolved,
     mediumSolved,
     hardSolved,
+    unknownSolved,
     totalSubmissions,
   };
 }
@@ -1,8 +1,9 @@
-import type { ProcessedData, Difficulty, TimeRange } from '../../types';
+import type { ProcessedData, FilterSpec } from '../../types';
 import { colors } from '../../ui/theme/colors'; // Import the centralized colors
+import { filterSubmissions } from '../filters';
 
 // Map status codes to their labels and a key for the color object
-const STATUS_MAP: { [key: number]: { label: string; colorKey: keyof typeof colors.status } } = {
+export const STATUS_MAP: { [key: number]: { label: string; colorKey: keyof typeof colors.status } } = {
   10: { label: 'Accepted', colorKey: 'accepted' },
   11: { label: 'Wrong Answer', colorKey: 'wrongAnswer' },
   12: { label: 'Memory Limit Exceeded', colorKey: 'memoryLimitExceeded' },
@@ -11,7 +12,14 @@ const STATUS_MAP: { [key: number]: { label: string; colorKey: keyof typeof color
 };
 
 // Default for any other status code (13, 15, etc.)
-const RUNTIME_ERROR_DEFAULT = { label: 'Runtime Error', colorKey: 'runtimeError' as keyof typeof colors.status };
+export const RUNTIME_ERROR_DEFAULT = { label: 'Runtime Error', colorKey: 'runtimeError' as keyof typeof colors.status };
+
+/**
+ * Returns the display label for a submission status code.
+ */
+export function getStatusLabel(status: number): string {
+  return (STATUS_MAP[status] || RUNTIME_ERROR_DEFAULT).label;
+}
 
 /**
  * Calculates all necessary data for the Submission Signature doughnut chart.
@@ -21,36 +29,10 @@ const RUNTIME_ERROR_DEFAULT = { label: 'Runtime Error', colorKey: 'runtimeError'
  */
 export function getSubmissionSignatureStats(
   processedData: ProcessedData,
-  filters: { timeRange: TimeRange; difficulty: Difficulty }
+  filters: FilterSpec
 ) {
-  const { submissions } = processedData;
-  const { timeRange, difficulty } = filters;
-
   // --- 1. Filter submissions based on dropdowns ---
-  const now = new Date();
-  const ONE_DAY_MS = 24 * 60 * 60 * 1000;
-
-  const filteredSubmissions = submissions.filter(sub => {
-    const submissionTime = sub.date.getTime();
-    const nowTime = now.getTime();
-
-    if (timeRange !== 'All Time') {
-      let maxAgeInDays = 0;
-      if (timeRange === 'Last 30 Days') maxAgeInDays = 30;
-      else if (timeRange === 'Last 90 Days') maxAgeInDays = 90;
-      else if (timeRange === 'Last 365 Days') maxAgeInDays = 365;
-
-      if (nowTime - submissionTime > maxAgeInDays * ONE_DAY_MS) {
-        return false;
-      }
-    }
-
-    if (difficulty !== 'All' && sub.metadata?.difficulty !== difficulty) {
-      return false;
-    }
-
-    return true;
-  });
+  const filteredSubmissions = filterSubmissions(processedData.submissions, filters);
 
   const totalSubmissions = filteredSubmissions.length;
 
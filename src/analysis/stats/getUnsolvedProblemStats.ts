@@ -0,0 +1,37 @@
+import type { ProcessedData, UnsolvedProblem, UnsolvedProblemsData } from '../../types';
+import { getActivityDay } from '../calendar';
+import { toDayNumber, zonedNow } from '../timezone';
+
+const STATUS_ACCEPTED = 10;
+
+/**
+ * Lists every attempted problem without an accepted submission, split by whether it
+ * was attempted recently or has been abandoned.
+ * @param processedData The main processed data object.
+ * @param abandonedAfterDays Problems not attempted for more than this many days count as abandoned.
+ * @returns The unsolved problems, grouped.
+ */
+export function getUnsolvedProblemStats(processedData: ProcessedData, abandonedAfterDays: number): UnsolvedProblemsData {
+    const today = toDayNumber(getActivityDay(zonedNow()));
+    const inProgress: UnsolvedProblem[] = [];
+    const abandoned: UnsolvedProblem[] = [];
+
+    for (const [slug, submissions] of processedData.problemMap) {
+        if (submissions.length === 0 || submissions.some(sub => sub.status === STATUS_ACCEPTED)) continue;
+
+        const lastAttemptDate = submissions[submissions.length - 1].date;
+        const problem: UnsolvedProblem = {
+            slug,
+            title: submissions[0].title,
+            difficulty: submissions[0].metadata?.difficulty,
+            topics: submissions[0].metadata?.topics || [],
+            attempts: submissions.length,
+            lastAttemptDate,
+            daysSinceLastAttempt: Math.max(0, today - toDayNumber(getActivityDay(lastAttemptDate))),
+        };
+        (problem.daysSinceLastAttempt > abandonedAfterDays ? abandoned : inProgress).push(problem);
+    }
+
+    const byLastAttempt = (a: UnsolvedProblem, b: UnsolvedProblem) => b.lastAttemptDate.getTime() - a.lastAttemptDate.getTime();
+    return { inProgress: inProgress.sort(byLastAttempt), abandoned: abandoned.sort(byLastAttempt) };
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { setActiveTimeZone, toZonedDate, toDayKey, toDayNumber } from './timezone';
+import { getActivityDay, setCalendarSettings } from './calendar';
+import { processData } from './processor';
+import { getLegacyStats } from './stats/getLegacyStats';
+
+// Pin the browser's zone, so the cases below that depend on it are deterministic.
+vi.stubEnv('TZ', 'Europe/Berlin');
+
+/** Converts an instant in the active zone and describes its wall-clock day and hour. */
+function zoned(iso: string): { day: string; hour: number; minute: number } {
+    const date = toZonedDate(new Date(iso));
+    return { day: toDayKey(date), hour: date.getHours(), minute: date.getMinutes() };
+}
+
+/** Computes the streaks for submissions made at the given instants, as of `now`. */
+function getStreaks(instants: Date[], now: Date) {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    const submissions = instants.map((instant, i) => ({
+        id: String(i + 1),
+        title: `Problem ${i}`,
+        titleSlug: `problem-${i}`,
+        status: 10,
+        lang: 'python3',
+        timestamp: String(instant.getTime() / 1000),
+    }));
+    const stats = getLegacyStats(processData(submissions, {}), 1)!;
+    return {
+        current: stats.streaks.currentSubmissionStreak,
+        currentSolve: stats.streaks.currentSolveStreak,
+        longest: Math.max(...stats.streaks.history.map(period => period.length)),
+        periods: stats.streaks.history.length,
+    };
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+    setActiveTimeZone(null);
+    setCalendarSettings({ dayRolloverHour: 0, weekStart: 1 });
+});
+
+describe('browser zone', () => {
+    it('is pinned for these tests', () => {
+        expect(new Date(2024, 0, 1).getTimezoneOffset()).toBe(-60);
+        expect(new Date(2024, 6, 1).getTimezoneOffset()).toBe(-120);
+    });
+});
+
+describe('toZonedDate across DST changes', () => {
+    it('skips the missing hour on a spring-forward day', () => {
+        // New York jumps from 02:00 EST to 03:00 EDT on 10 March 2024.
+        setActiveTimeZone('America/New_York');
+        expect(zoned('2024-03-10T06:59:00Z')).toEqual({ day: '2024-03-10', hour: 1, minute: 59 });
+        expect(zoned('2024-03-10T07:00:00Z')).toEqual({ day: '2024-03-10', hour: 3, minute: 0 });
+    });
+
+    it('reads both copies of the repeated hour on a fall-back day as the same day', () => {
+        // New York falls back from 02:00 EDT to 01:00 EST on 3 November 2024.
+        setActiveTimeZone('America/New_York');
+        expect(zoned('2024-11-03T05:30:00Z')).toEqual({ day: '2024-11-03', hour: 1, minute: 30 });
+        expect(zoned('2024-11-03T06:30:00Z')).toEqual({ day: '2024-11-03', hour: 1, minute: 30 });
+        expect(zoned('2024-11-04T04:59:00Z')).toEqual({ day: '2024-11-03', hour: 23, minute: 59 });
+    });
+
+    it('moves a wall-clock time in the browser zone\'s gap forward without changing its day', () => {
+        // 02:30 in New York on 31 March 2024 does not exist in Berlin, which springs forward that night.
+        setActiveTimeZone('America/New_York');
+        expect(zoned('2024-03-31T06:30:00Z')).toEqual({ day: '2024-03-31', hour: 3, minute: 30 });
+    });
+});
+
+describe('toDayNumber across DST changes', () => {
+    it('numbers the days around a 23-hour and a 25-hour day consecutively', () => {
+        setActiveTimeZone('America/New_York');
+        const dayNumber = (iso: string) => toDayNumber(toZonedDate(new Date(iso)));
+
+        const springForward = dayNumber('2024-03-10T12:00:00Z');
+        expect(dayNumber('2024-03-09T12:00:00Z')).toBe(springForward - 1);
+        expect(dayNumber('2024-03-11T12:00:00Z')).toBe(springForward + 1);
+        // Just after midnight on the following day, which started 23 hours after the DST day did.
+        expect(dayNumber('2024-03-11T04:01:00Z')).toBe(springForward + 1);
+
+        const fallBack = dayNumber('2024-11-03T12:00:00Z');
+        expect(dayNumber('2024-11-04T04:59:00Z')).toBe(fallBack);
+        expect(dayNumber('2024-11-04T05:00:00Z')).toBe(fallBack + 1);
+    });
+});
+
+describe('activity days around the rollover hour', () => {
+    it('splits a spring-forward night at the rollover hour', () => {
+        setActiveTimeZone('America/New_York');
+        setCalendarSettings({ dayRolloverHour: 3, weekStart: 1 });
+        const activityDay = (iso: string) => toDayKey(getActivityDay(toZonedDate(new Date(iso))));
+
+        // 01:59 EST still belongs to the night before; a minute later the clock reads 03:00 EDT.
+        expect(activityDay('2024-03-10T06:59:00Z')).toBe('2024-03-09');
+        expect(activityDay('2024-03-10T07:00:00Z')).toBe('2024-03-10');
+    });
+
+    it('keeps both copies of a repeated hour before the rollover on the previous day', () => {
+        // London falls back from 02:00 BST to 01:00 GMT on 27 October 2024.
+        setActiveTimeZone('Europe/London');
+        setCalendarSettings({ dayRolloverHour: 2, weekStart: 1 });
+        const activityDay = (iso: string) => toDayKey(getActivityDay(toZonedDate(new Date(iso))));
+
+        expect(activityDay('2024-10-27T00:30:00Z')).toBe('2024-10-26');
+        expect(activityDay('2024-10-27T01:30:00Z')).toBe('2024-10-26');
+        expect(activityDay('2024-10-27T02:00:00Z')).toBe('2024-10-27');
+    });
+});
+
+describe('a zone that differs from the browser\'s', () => {
+    it('buckets a submission near midnight by the chosen zone', () => {
+        // 23:30 in Los Angeles is already 08:30 the next morning in Berlin.
+        const lateEvening = '2024-06-15T06:30:00Z';
+        expect(zoned(lateEvening).day).toBe('2024-06-15');
+        setActiveTimeZone('America/Los_Angeles');
+        expect(zoned(lateEvening)).toEqual({ day: '2024-06-14', hour: 23, minute: 30 });
+
+        // 00:30 in Tokyo is still the previous evening in Berlin.
+        const pastMidnight = '2024-06-14T15:30:00Z';
+        setActiveTimeZone('Asia/Tokyo');
+        expect(zoned(pastMidnight)).toEqual({ day: '2024-06-15', hour: 0, minute: 30 });
+        setActiveTimeZone(null);
+        expect(zoned(pastMidnight)).toEqual({ day: '2024-06-14', hour: 17, minute: 30 });
+    });
+
+    it('falls back to the browser zone for an unknown zone', () => {
+        setActiveTimeZone('Not/AZone');
+        expect(zoned('2024-06-14T15:30:00Z').day).toBe('2024-06-14');
+    });
+});
+
+describe('streaks across a DST change in the browser zone', () => {
+    // Berlin springs forward from 02:00 CET to 03:00 CEST on 31 March 2024, and falls
+    // back from 03:00 CEST to 02:00 CET on 27 October 2024.
+    const springForward = () => [
+        new Date(2024, 2, 28, 23, 30),
+        new Date(2024, 2, 29, 23, 30),
+        new Date(2024, 2, 30, 23, 30),
+        // The first instant after the skipped hour.
+        new Date('2024-03-31T01:00:00Z'),
+        // Just after midnight on the days after the 23-hour day.
+        new Date(2024, 3, 1, 0, 15),
+        new Date(2024, 3, 2, 0, 15),
+        new Date(2024, 3, 3, 0, 15),
+    ];
+
+    it('keeps a week of daily submissions one streak over spring-forward', () => {
+        expect(getStreaks(springForward(), new Date(2024, 3, 3, 12))).toEqual({ current: 7, currentSolve: 7, longest: 7, periods: 1 });
+    });
+
+    it('keeps the streak when the rollover hour moves submissions across the skipped hour', () => {
+        // With a 1 AM rollover, the after-midnight submissions count toward the day before.
+        setCalendarSettings({ dayRolloverHour: 1, weekStart: 1 });
+        expect(getStreaks(springForward(), new Date(2024, 3, 3, 12))).toEqual({ current: 6, currentSolve: 6, longest: 6, periods: 1 });
+    });
+
+    it('counts both copies of the repeated hour as one day over fall-back', () => {
+        const instants = [
+            new Date(2024, 9, 24, 12),
+            new Date(2024, 9, 25, 12),
+            new Date(2024, 9, 26, 23, 59),
+            new Date('2024-10-27T00:30:00Z'), // 02:30 CEST
+            new Date('2024-10-27T01:30:00Z'), // 02:30 CET, an hour later
+            new Date(2024, 9, 28, 0, 1),
+            new Date(2024, 9, 29, 12),
+            new Date(2024, 9, 30, 12),
+        ];
+        expect(getStreaks(instants, new Date(2024, 9, 30, 20))).toEqual({ current: 7, currentSolve: 7, longest: 7, periods: 1 });
+    });
+
+    it('still breaks a streak on a missed day next to a transition', () => {
+        const instants = springForward().filter(instant => instant.getDate() !== 1);
+        expect(getStreaks(instants, new Date(2024, 3, 3, 12))).toEqual({ current: 2, currentSolve: 2, longest: 4, periods: 2 });
+    });
+
+    it('keeps a streak whose submission falls in the browser zone\'s skipped hour', () => {
+        // Daily at noon in New York; 02:30 EDT on 31 March does not exist in Berlin.
+        setActiveTimeZone('America/New_York');
+        const instants = ['03-28T16:00', '03-29T16:00', '03-30T16:00', '03-31T06:30', '04-01T16:00', '04-02T16:00', '04-03T16:00']
+            .map(time => new Date(`2024-${time}:00Z`));
+        expect(getStreaks(instants, new Date('2024-04-03T20:00:00Z'))).toEqual({ current: 7, currentSolve: 7, longest: 7, periods: 1 });
+    });
+});
@@ -0,0 +1,105 @@
+import type { ProcessedData } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The zone submission times are bucketed in, or null for the browser's own zone.
+let activeTimeZone: string | null = null;
+
+// Building a formatter is far slower than using one, and every submission needs one.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Checks whether the browser knows an IANA timezone name.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch (err) {
+        return false;
+    }
+}
+
+/**
+ * Sets the zone used by `toZonedDate` and `zonedNow`. An unknown zone falls back to the
+ * browser's, so a setting saved on another machine never breaks the charts.
+ * @param timeZone An IANA zone such as 'Europe/Berlin' or 'UTC', or null for the browser's zone.
+ */
+export function setActiveTimeZone(timeZone: string | null) {
+    activeTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+/**
+ * Converts an instant into a `Date` whose local fields (`getHours()`, `getDate()`, ...)
+ * read as the wall-clock time in the active zone, so all bucketing code can keep using
+ * the local getters. The result's `getTime()` is only meaningful relative to other
+ * zoned dates.
+ *
+ * A wall-clock time that falls in a DST gap of the browser's own zone is moved forward
+ * by the gap, which can shift its hour but never its day.
+ * @param instant The real point in time.
+ */
+export function toZonedDate(instant: Date): Date {
+    if (!activeTimeZone) {
+        return new Date(instant.getTime());
+    }
+
+    let formatter = formatters.get(activeTimeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: activeTimeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(activeTimeZone, formatter);
+    }
+
+    const parts: { [type: string]: number } = {};
+    for (const part of formatter.formatToParts(instant)) {
+        if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+    }
+    return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant.getMilliseconds());
+}
+
+/**
+ * Returns the current time as a zoned date, for comparing against submission dates.
+ */
+export function zonedNow(): Date {
+    return toZonedDate(new Date());
+}
+
+/**
+ * Formats a zoned date's calendar day as `YYYY-MM-DD`.
+ */
+export function toDayKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Numbers a zoned date's calendar day, so consecutive days differ by exactly one even
+ * when a DST change makes the day 23 or 25 hours long.
+ */
+export function toDayNumber(date: Date): number {
+    return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY);
+}
+
+/**
+ * Switches the active zone and re-buckets already processed submissions in place.
+ * @param processedData The processed data to update.
+ * @param timeZone The new zone, or null for the browser's zone.
+ */
+export function applyTimeZone(processedData: ProcessedData, timeZone: string | null) {
+    setActiveTimeZone(timeZone);
+    for (const sub of processedData.submissions) {
+        sub.date = toZonedDate(new Date(parseInt(sub.timestamp, 10) * 1000));
+    }
+    // Re-sort in case a DST gap moved two close submissions past each other.
+    for (const problemSubmissions of processedData.problemMap.values()) {
+        problemSubmissions.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+}
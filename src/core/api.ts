@@ -1,9 +1,11 @@
 import type {
     RawSubmission,
     SubmissionListResponse,
+    BackfillCheckpoint,
     ProblemMetadata,
     UserSubmissionsGraphQLResponse,
 } from '../types';
+import { graphqlRequest, LeetCodeApiError, type ApiResult } from './graphql';
 
 /**
  * Defines the structure of the user status response from LeetCode's API.
@@ -14,12 +16,20 @@ export interface UserStatus {
     isPremium?: boolean;
 }
 
+/**
+ * Defines the structure of a question's metadata as returned by LeetCode's API.
+ */
+interface QuestionMetadataResponse {
+    titleSlug: string;
+    difficulty: ProblemMetadata['difficulty'];
+    topicTags: { name: string; slug: string }[];
+}
+
 /**
  * Fetches the login status and username of the current user.
- * @returns A promise that resolves to the user's status.
+ * @returns A promise that resolves to the user's status, or the reason it could not be fetched.
  */
-export async function fetchUserStatus(): Promise<UserStatus> {
-    const graphqlUrl = 'https://leetcode.com/graphql';
+export async function fetchUserStatus(): Promise<ApiResult<UserStatus>> {
     const query = `
         query {
             userStatus {
@@ -28,33 +38,24 @@ export async function fetchUserStatus(): Promise<UserStatus> {
             }
         }`;
 
-    try {
-        const res = await fetch(graphqlUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ query }),
-            credentials: 'include',
-        });
-
-        const json = await res.json();
-        // If userStatus is null (can happen if cookies are invalid/expired), treat as logged out.
-        if (!json.data.userStatus) {
-            return { isSignedIn: false, username: '' };
-        }
-        return json.data.userStatus;
-    } catch (err) {
-        // Return a fallback value indicating the user is not signed in.
-        return { isSignedIn: false, username: '' };
+    const result = await graphqlRequest<{ userStatus: UserStatus | null }>(query);
+    if (!result.ok) {
+        return result;
+    }
+
+    // If userStatus is null (can happen if cookies are invalid/expired), treat as logged out.
+    if (!result.data.userStatus) {
+        return { ok: true, data: { isSignedIn: false, username: '' } };
     }
+    return { ok: true, data: result.data.userStatus };
 }
 
 /**
  * Fetches the total number of accepted submissions for a user using the specified GraphQL query.
  * @param username The LeetCode username.
- * @returns The total number of accepted submissions.
+ * @returns The total number of accepted submissions, or the reason it could not be fetched.
  */
-export async function fetchTotalAcceptedSubmissions(username: string): Promise<number> {
-    const graphqlUrl = 'https://leetcode.com/graphql';
+export async function fetchTotalAcceptedSubmissions(username: string): Promise<ApiResult<number>> {
     const query = `
         query userSubmissions($username: String!) {
             matchedUser(username: $username) {
@@ -68,36 +69,39 @@ export async function fetchTotalAcceptedSubmissions(username: string): Promise<n
         }
     `;
 
-    try {
-        const res = await fetch(graphqlUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ query, variables: { username } }),
-            credentials: 'include',
-        });
-
-        const json: UserSubmissionsGraphQLResponse = await res.json();
-        const allStats = json.data.matchedUser.submitStatsGlobal.acSubmissionNum.find(
-            s => s.difficulty === 'All'
-        );
+    const result = await graphqlRequest<UserSubmissionsGraphQLResponse['data']>(query, { username });
+    if (!result.ok) {
+        return result;
+    }
 
-        return allStats ? allStats.submissions : 0;
-    } catch (err) {
-        return 0; // Return a fallback value
+    const acSubmissionNum = result.data.matchedUser?.submitStatsGlobal?.acSubmissionNum;
+    if (!acSubmissionNum) {
+        return { ok: false, error: new LeetCodeApiError('schema_changed', 'Accepted submission stats are missing.') };
     }
+
+    const allStats = acSubmissionNum.find(s => s.difficulty === 'All');
+    return { ok: true, data: allStats ? allStats.submissions : 0 };
 }
 
 /**
  * Fetches all submissions from the LeetCode API newer than a given submission ID.
+ * The walk can be resumed from a checkpoint, and each page is handed to `onCheckpoint`
+ * with a fresh checkpoint so an interrupted fetch never starts from scratch. A resumed
+ * walk only returns the submissions fetched since it resumed.
  * @param lastSubmissionId The ID of the last submission fetched previously.
  * @param onProgress A callback function to report progress.
+ * @param resumeFrom A checkpoint from a previous, unfinished walk over the same cache.
+ * @param onCheckpoint A callback that persists each page and the checkpoint after it.
+ * @param signal Stops the walk before the next page is requested.
  * @returns A promise that resolves to an array of new raw submissions.
  */
 export async function fetchAllSubmissions(
     lastSubmissionId: string = '0',
-    onProgress: (progress: { accepted: number; total: number }) => void
+    onProgress: (progress: { accepted: number; total: number }) => void,
+    resumeFrom: BackfillCheckpoint | null = null,
+    onCheckpoint?: (checkpoint: BackfillCheckpoint, page: RawSubmission[]) => Promise<void>,
+    signal?: AbortSignal
 ): Promise<RawSubmission[]> {
-    const graphqlUrl = 'https://leetcode.com/graphql';
     const query = `
         query submissionList($offset: Int!, $limit: Int!) {
             submissionList(offset: $offset, limit: $limit) {
@@ -108,48 +112,67 @@ export async function fetchAllSubmissions(
     `;
 
     const limit = 20;
-    let offset = 0;
+    const lastId = parseInt(lastSubmissionId, 10);
+    let offset = resumeFrom ? resumeFrom.offset : 0;
+    const resumedCount = resumeFrom ? resumeFrom.fetchedCount : 0;
     let allNewSubmissions: RawSubmission[] = [];
     let hasNext = true;
     let newAcceptedFetched = 0;
+    let newestSeenId = resumeFrom ? resumeFrom.newestSeenId : '0';
+    let oldestSeenId = resumeFrom ? resumeFrom.oldestSeenId : '0';
+
+    // New submissions push older pages to higher offsets, so a walk may see some twice.
+    // Track ids to keep them out; the caller drops repeats of pages saved before a resume.
+    const seenIds = new Set<string>();
 
     while (hasNext) {
-        try {
-            const res = await fetch(graphqlUrl, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ query, variables: { offset, limit } }),
-                credentials: 'include',
-            });
-
-            const json: SubmissionListResponse = await res.json();
-            const pageData = json?.data?.submissionList;
-
-            if (!pageData) {
-                break;
-            }
+        signal?.throwIfAborted();
+        const result = await graphqlRequest<SubmissionListResponse['data']>(query, { offset, limit });
+        if (!result.ok) {
+            throw result.error; // Caught by the main initializer; the checkpoint survives for the next visit.
+        }
+
+        // LeetCode hides the submission list from signed-out sessions.
+        const pageData = result.data.submissionList;
+        if (!pageData) {
+            throw new LeetCodeApiError('unauthenticated', 'The submission list is unavailable.');
+        }
 
-            const recentSubmissions = pageData.submissions.filter(
-                s => parseInt(s.id, 10) > parseInt(lastSubmissionId, 10)
-            );
+        const recentSubmissions = pageData.submissions.filter(
+            s => parseInt(s.id, 10) > lastId
+        );
+        const unseenSubmissions = recentSubmissions.filter(s => !seenIds.has(s.id));
 
-            allNewSubmissions.push(...recentSubmissions);
+        for (const sub of unseenSubmissions) {
+            seenIds.add(sub.id);
+            const id = parseInt(sub.id, 10);
+            if (id > parseInt(newestSeenId, 10)) newestSeenId = sub.id;
+            if (oldestSeenId === '0' || id < parseInt(oldestSeenId, 10)) oldestSeenId = sub.id;
+        }
 
-            const acceptedThisPage = recentSubmissions.filter(s => s.status === 10).length;
-            newAcceptedFetched += acceptedThisPage;
+        allNewSubmissions.push(...unseenSubmissions);
 
-            // Report running total of *new* accepted and *new* total submissions
-            onProgress({ accepted: newAcceptedFetched, total: allNewSubmissions.length });
+        const acceptedThisPage = unseenSubmissions.filter(s => s.status === 10).length;
+        newAcceptedFetched += acceptedThisPage;
 
-            if (recentSubmissions.length < pageData.submissions.length || !pageData.hasNext) {
-                hasNext = false;
-            } else {
-                offset += limit;
-            }
+        // Report running total of *new* accepted and *new* total submissions
+        onProgress({ accepted: newAcceptedFetched, total: allNewSubmissions.length });
 
-            await new Promise(r => setTimeout(r, 200)); // Avoid rate-limiting
-        } catch (err) {
-            throw err; // Re-throw to be caught by the main initializer
+        if (recentSubmissions.length < pageData.submissions.length || !pageData.hasNext) {
+            hasNext = false;
+        } else {
+            offset += limit;
+
+            if (onCheckpoint) {
+                await onCheckpoint({
+                    baseSubmissionId: lastSubmissionId,
+                    offset,
+                    newestSeenId,
+                    oldestSeenId,
+                    fetchedCount: resumedCount + allNewSubmissions.length,
+                    updatedAt: Date.now(),
+                }, unseenSubmissions);
+            }
         }
     }
 
@@ -157,39 +180,41 @@ export async function fetchAllSubmissions(
 }
 
 /**
- * Fetches metadata for a single problem if it's not already cached.
+ * Fetches metadata for a batch of problems in a single request, using one aliased
+ * `question` field per slug.
+ * @param slugs The problem slugs to look up.
+ * @returns A map from each requested slug to its metadata, or null if LeetCode has no such problem.
  */
-export async function fetchProblemMetadata(slug: string): Promise<ProblemMetadata | null> {
-    const graphqlUrl = 'https://leetcode.com/graphql';
-    const query = `
-        query getQuestionMetadata($titleSlug: String!) {
-            question(titleSlug: $titleSlug) {
+export async function fetchProblemMetadataBatch(
+    slugs: string[]
+): Promise<ApiResult<{ [slug: string]: ProblemMetadata | null }>> {
+    const variableDefinitions = slugs.map((_, i) => `$s${i}: String!`).join(', ');
+    const fields = slugs.map((_, i) => `
+            q${i}: question(titleSlug: $s${i}) {
                 titleSlug, difficulty, topicTags { name, slug }
-            }
+            }`).join('');
+    const query = `
+        query getQuestionMetadataBatch(${variableDefinitions}) {${fields}
         }
     `;
 
-    try {
-        const res = await fetch(graphqlUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ query, variables: { titleSlug: slug } }),
-            credentials: 'include',
-        });
+    const variables: { [name: string]: string } = {};
+    slugs.forEach((slug, i) => { variables[`s${i}`] = slug; });
 
-        const json = await res.json();
-        const question = json?.data?.question;
-
-        if (!question) {
-            return null;
-        }
+    const result = await graphqlRequest<{ [alias: string]: QuestionMetadataResponse | null }>(query, variables);
+    if (!result.ok) {
+        return result;
+    }
 
-        return {
+    const metadataBySlug: { [slug: string]: ProblemMetadata | null } = {};
+    slugs.forEach((slug, i) => {
+        const question = result.data[`q${i}`];
+        metadataBySlug[slug] = question ? {
             slug: question.titleSlug,
             difficulty: question.difficulty,
-            topics: question.topicTags.map((tag: { slug: string }) => tag.slug),
-        };
-    } catch (err) {
-        return null;
-    }
+            topics: question.topicTags.map(tag => tag.slug),
+        } : null;
+    });
+
+    return { ok: true, data: metadataBySlug };
 }
@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { configureGraphQLClient, graphqlRequest } from './graphql';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('graphqlRequest', () => {
+    it('never has more than maxConcurrent requests in flight', async () => {
+        let inFlight = 0;
+        let peak = 0;
+        let calls = 0;
+        vi.stubGlobal('fetch', () => {
+            calls++;
+            // The first request fails straight away, so its slot is released while others wait.
+            if (calls === 1) {
+                return Promise.resolve(new Response('', { status: 500 }));
+            }
+            inFlight++;
+            peak = Math.max(peak, inFlight);
+            return new Promise<Response>(resolve => setTimeout(() => {
+                inFlight--;
+                resolve(new Response(JSON.stringify({ data: { ok: true } }), { status: 200 }));
+            }, 10));
+        });
+
+        const requests: Promise<unknown>[] = [];
+        configureGraphQLClient({
+            maxConcurrent: 2,
+            minIntervalMs: 0,
+            maxRetries: 1,
+            baseDelayMs: 0,
+            // Runs right after the failed request gives up its slot, before a waiter resumes.
+            onRetry: () => {
+                requests.push(graphqlRequest('query { late }'));
+            },
+        });
+        requests.push(...['a', 'b', 'c', 'd'].map(name => graphqlRequest(`query { ${name} }`)));
+
+        // Wait for the request started by onRetry as well.
+        while (requests.length < 5) await new Promise(resolve => setTimeout(resolve, 1));
+        const results = await Promise.all(requests);
+
+        expect(results.every(result => (result as { ok: boolean }).ok)).toBe(true);
+        expect(peak).toBe(2);
+    });
+});
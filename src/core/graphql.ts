@@ -0,0 +1,211 @@
+const GRAPHQL_URL = 'https://leetcode.com/graphql';
+
+/**
+ * The ways a LeetCode GraphQL call can fail. Only `rate_limited`, `server` and
+ * `network` failures are retried; the rest are returned to the caller immediately.
+ */
+export type ApiErrorKind =
+    | 'rate_limited'
+    | 'unauthenticated'
+    | 'schema_changed'
+    | 'not_found'
+    | 'server'
+    | 'network';
+
+/**
+ * An error raised by the GraphQL client, tagged with the kind of failure so callers
+ * can react to "rate limited" differently from "logged out" or "schema changed".
+ */
+export class LeetCodeApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status?: number;
+
+    constructor(kind: ApiErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'LeetCodeApiError';
+        this.kind = kind;
+        this.status = status;
+    }
+}
+
+/** The result of a GraphQL call: either its data or a typed error. */
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: LeetCodeApiError };
+
+/** Details passed to the retry listener before the client waits and tries again. */
+export interface RetryInfo {
+    attempt: number;
+    delayMs: number;
+    error: LeetCodeApiError;
+}
+
+export interface GraphQLClientOptions {
+    /** The maximum number of requests in flight at once. */
+    maxConcurrent: number;
+    /** The minimum gap between the start of two requests. */
+    minIntervalMs: number;
+    /** How many times a retryable failure is retried before giving up. */
+    maxRetries: number;
+    /** The first backoff delay; each retry doubles it. */
+    baseDelayMs: number;
+    maxDelayMs: number;
+    onRetry?: (info: RetryInfo) => void;
+}
+
+const RETRYABLE_KINDS: ApiErrorKind[] = ['rate_limited', 'server', 'network'];
+
+let clientOptions: GraphQLClientOptions = {
+    maxConcurrent: 4,
+    minIntervalMs: 150,
+    maxRetries: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+};
+
+// --- Concurrency & pacing state ---
+let activeRequests = 0;
+const waitingRequests: (() => void)[] = [];
+let nextRequestAt = 0;
+
+/**
+ * Overrides the client's concurrency, pacing and retry settings.
+ * @param options The settings to change; omitted settings keep their current value.
+ */
+export function configureGraphQLClient(options: Partial<GraphQLClientOptions>): void {
+    clientOptions = { ...clientOptions, ...options };
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Waits for a free request slot, then for the pacing interval to elapse. A waiting
+ * request is handed its slot directly by `releaseSlot`.
+ */
+async function acquireSlot(): Promise<void> {
+    if (activeRequests >= clientOptions.maxConcurrent) {
+        await new Promise<void>(resolve => waitingRequests.push(resolve));
+    } else {
+        activeRequests++;
+    }
+
+    const now = Date.now();
+    const startAt = Math.max(now, nextRequestAt);
+    nextRequestAt = startAt + clientOptions.minIntervalMs;
+    if (startAt > now) {
+        await sleep(startAt - now);
+    }
+}
+
+/**
+ * Hands the slot to the next waiting request, or frees it if none is waiting. Handing it
+ * over keeps the slot taken, so a request arriving before the waiter resumes can't claim it too.
+ */
+function releaseSlot(): void {
+    const next = waitingRequests.shift();
+    if (next) {
+        next();
+    } else {
+        activeRequests--;
+    }
+}
+
+/**
+ * Maps a GraphQL `errors` array to an error kind based on the messages LeetCode returns.
+ */
+function classifyGraphQLErrors(errors: { message?: string }[]): ApiErrorKind {
+    const messages = errors.map(e => (e.message || '').toLowerCase()).join(' ');
+    if (/too many|rate limit|throttl/.test(messages)) return 'rate_limited';
+    if (/log ?in|sign ?in|authenticat|permission/.test(messages)) return 'unauthenticated';
+    if (/not found|does not exist/.test(messages)) return 'not_found';
+    return 'schema_changed';
+}
+
+/**
+ * Performs a single request and converts every failure mode into a `LeetCodeApiError`.
+ */
+async function executeRequest<T>(
+    query: string,
+    variables: Record<string, unknown>
+): Promise<ApiResult<T> & { retryAfterMs?: number }> {
+    let res: Response;
+    try {
+        res = await fetch(GRAPHQL_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ query, variables }),
+            credentials: 'include',
+        });
+    } catch (err) {
+        return { ok: false, error: new LeetCodeApiError('network', 'Could not reach LeetCode.') };
+    }
+
+    if (res.status === 429) {
+        const retryAfterSeconds = parseInt(res.headers.get('Retry-After') || '', 10);
+        return {
+            ok: false,
+            error: new LeetCodeApiError('rate_limited', 'LeetCode is rate limiting requests.', res.status),
+            retryAfterMs: isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds * 1000,
+        };
+    }
+    if (res.status >= 500) {
+        return { ok: false, error: new LeetCodeApiError('server', `LeetCode returned ${res.status}.`, res.status) };
+    }
+    if (res.status === 401 || res.status === 403) {
+        return { ok: false, error: new LeetCodeApiError('unauthenticated', 'Not signed in to LeetCode.', res.status) };
+    }
+
+    let json: { data?: T | null; errors?: { message?: string }[] };
+    try {
+        json = await res.json();
+    } catch (err) {
+        return { ok: false, error: new LeetCodeApiError('schema_changed', 'LeetCode returned an unexpected response.', res.status) };
+    }
+
+    // Partial data (e.g. one missing question in a batched query) is still useful, so
+    // errors only fail the request when there is no data at all.
+    if (json.errors?.length && !json.data) {
+        const kind = classifyGraphQLErrors(json.errors);
+        return { ok: false, error: new LeetCodeApiError(kind, json.errors[0].message || 'GraphQL error.', res.status) };
+    }
+    if (!json.data) {
+        return { ok: false, error: new LeetCodeApiError('schema_changed', 'LeetCode returned no data.', res.status) };
+    }
+
+    return { ok: true, data: json.data };
+}
+
+/**
+ * Sends a query to LeetCode's GraphQL endpoint through the shared client, which
+ * bounds concurrency, paces requests and retries rate-limit, server and network
+ * failures with exponential backoff.
+ * @param query The GraphQL query.
+ * @param variables The query variables.
+ * @returns The response data or a typed error.
+ */
+export async function graphqlRequest<T>(
+    query: string,
+    variables: Record<string, unknown> = {}
+): Promise<ApiResult<T>> {
+    for (let attempt = 0; ; attempt++) {
+        await acquireSlot();
+        let result: ApiResult<T> & { retryAfterMs?: number };
+        try {
+            result = await executeRequest<T>(query, variables);
+        } finally {
+            releaseSlot();
+        }
+
+        if (result.ok) {
+            return { ok: true, data: result.data };
+        }
+        if (!RETRYABLE_KINDS.includes(result.error.kind) || attempt >= clientOptions.maxRetries) {
+            return { ok: false, error: result.error };
+        }
+
+        const backoff = clientOptions.baseDelayMs * 2 ** attempt;
+        const jitter = Math.random() * clientOptions.baseDelayMs;
+        const delayMs = Math.min(result.retryAfterMs ?? backoff + jitter, clientOptions.maxDelayMs);
+
+        clientOptions.onRetry?.({ attempt: attempt + 1, delayMs, error: result.error });
+        await sleep(delayMs);
+    }
+}
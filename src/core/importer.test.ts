@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { RawSubmission } from '../types';
+import { importSubmissionHistory } from './importer';
+import { repairSubmissionCache, checkSubmissionIntegrity } from './integrity';
+import { saveSubmissionsToStorage, appendSubmissionsToStorage, loadSubmissionsFromStorage } from './storage';
+import { toExportJSON, type ExportRow } from '../analysis/export';
+import { installFakeChromeStorage } from '../test/fakeChromeStorage';
+
+function makeSubmissions(ids: number[]): RawSubmission[] {
+    return ids.map(id => ({
+        id: String(id),
+        title: `Problem ${id}`,
+        titleSlug: `problem-${id}`,
+        status: 10,
+        lang: 'python3',
+        timestamp: String(1700000000 + id * 60),
+    }));
+}
+
+function toExportRows(submissions: RawSubmission[]): ExportRow[] {
+    return submissions.map(sub => ({
+        id: sub.id,
+        title: sub.title,
+        slug: sub.titleSlug,
+        date: new Date(parseInt(sub.timestamp, 10) * 1000).toISOString(),
+        timestamp: parseInt(sub.timestamp, 10),
+        status: sub.status,
+        statusLabel: 'Accepted',
+        lang: sub.lang,
+        difficulty: 'Easy',
+        topics: [],
+    }));
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+/** Loads the cache the way `initialize` does on the next visit. */
+async function reload(username: string) {
+    const stored = await loadSubmissionsFromStorage(username);
+    return repairSubmissionCache(stored.submissions, stored.latestFetchedSubmissionId);
+}
+
+describe('importSubmissionHistory', () => {
+    beforeEach(() => {
+        installFakeChromeStorage();
+    });
+
+    it('keeps the mark behind a filtered import across a reload', async () => {
+        await saveSubmissionsToStorage('alice', makeSubmissions(range(1, 10)));
+        const file = toExportJSON(toExportRows(makeSubmissions(range(50, 55))), 'alice', true);
+
+        const summary = await importSubmissionHistory('alice', file);
+        expect(summary.imported).toBe(6);
+        expect((await loadSubmissionsFromStorage('alice')).latestFetchedSubmissionId).toBe('10');
+
+        const reloaded = await reload('alice');
+        expect(reloaded.submissions).toHaveLength(16);
+        expect(reloaded.latestFetchedSubmissionId).toBe('10');
+        expect(reloaded.repaired).toBe(false);
+    });
+
+    it('keeps the mark behind an unfiltered import that does not reach the cache', async () => {
+        await saveSubmissionsToStorage('alice', makeSubmissions(range(1, 10)));
+        await importSubmissionHistory('alice', toExportJSON(toExportRows(makeSubmissions(range(50, 55))), 'alice', false));
+
+        expect((await reload('alice')).latestFetchedSubmissionId).toBe('10');
+    });
+
+    it('moves the mark past a contiguous import', async () => {
+        await saveSubmissionsToStorage('alice', makeSubmissions(range(1, 10)));
+        await importSubmissionHistory('alice', toExportJSON(toExportRows(makeSubmissions(range(8, 20))), 'alice', false));
+
+        const reloaded = await reload('alice');
+        expect(reloaded.submissions).toHaveLength(20);
+        expect(reloaded.latestFetchedSubmissionId).toBe('20');
+    });
+
+    it('stores an oldest-first export as a newest-first run', async () => {
+        await importSubmissionHistory('alice', toExportJSON(toExportRows(makeSubmissions(range(1, 20))), 'alice', false));
+        // A later fetch appends its own run, newest first.
+        await appendSubmissionsToStorage('alice', makeSubmissions(range(21, 25).reverse()));
+
+        const { submissions } = await loadSubmissionsFromStorage('alice');
+        expect(submissions.slice(0, 3).map(s => s.id)).toEqual(['20', '19', '18']);
+        // A shortfall re-syncs from the top of the imported run, not from its oldest submission.
+        expect(checkSubmissionIntegrity(submissions, 30).resyncFromId).toBe('20');
+    });
+
+    it('moves the mark past an unfiltered import over pages left by an interrupted first fetch', async () => {
+        // The newest pages were saved under the walk's base mark before it stopped.
+        await appendSubmissionsToStorage('alice', makeSubmissions(range(41, 60)), '0');
+        await importSubmissionHistory('alice', toExportJSON(toExportRows(makeSubmissions(range(1, 50))), 'alice', false));
+
+        const reloaded = await reload('alice');
+        expect(reloaded.submissions).toHaveLength(60);
+        expect(reloaded.latestFetchedSubmissionId).toBe('50');
+    });
+});
+
+describe('repairSubmissionCache', () => {
+    it('lowers a mark that is ahead of the cache and drops duplicates', () => {
+        const submissions = makeSubmissions([1, 2, 3, 3]);
+        expect(repairSubmissionCache(submissions, '99')).toEqual({
+            submissions: makeSubmissions([1, 2, 3]),
+            latestFetchedSubmissionId: '3',
+            repaired: true,
+        });
+    });
+
+    it('never raises a mark that is behind the cache', () => {
+        expect(repairSubmissionCache(makeSubmissions([1, 2, 30]), '2')).toEqual({
+            submissions: makeSubmissions([1, 2, 30]),
+            latestFetchedSubmissionId: '2',
+            repaired: false,
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import type { ImportSummary } from '../types';
+import { parseExportFile, ExportFormatError } from '../analysis/export';
+import {
+    loadSubmissionsFromStorage,
+    saveSubmissionsToStorage,
+    loadProblemMetadataFromStorage,
+    saveProblemMetadataToStorage,
+} from './storage';
+import { mergeSubmissions } from './integrity';
+import { getLatestSubmissionId } from './submissionCodec';
+
+/**
+ * Merges a JSON export into a user's cached history. Submissions are deduplicated by
+ * id, and metadata from the export only fills in problems missing from the cache.
+ *
+ * The high-water mark only moves past the cache when the export is unfiltered and
+ * reaches back to the mark (or nothing has been fully fetched yet), so the next incremental fetch
+ * still covers anything the file could be missing.
+ * @param username The user whose history is being imported.
+ * @param text The contents of the export file.
+ * @returns What was imported.
+ * @throws ExportFormatError if the file is invalid or belongs to another user.
+ */
+export async function importSubmissionHistory(username: string, text: string): Promise<ImportSummary> {
+    const parsed = parseExportFile(text);
+    if (parsed.username !== username) {
+        throw new ExportFormatError(`This export belongs to ${parsed.username}, not ${username}.`);
+    }
+
+    // Exports list submissions oldest first; store them newest first, like a fetch run,
+    // so the integrity check can still tell where one run ends and the next begins.
+    const newestFirst = [...parsed.submissions].sort((a, b) => parseInt(b.id, 10) - parseInt(a.id, 10));
+
+    const cached = await loadSubmissionsFromStorage(username);
+    const merged = mergeSubmissions(cached.submissions, newestFirst);
+    const imported = merged.submissions.length - cached.submissions.length;
+
+    const cachedLatest = parseInt(cached.latestFetchedSubmissionId, 10);
+    const importOldestId = parsed.submissions.reduce(
+        (oldest, sub) => Math.min(oldest, parseInt(sub.id, 10)),
+        Infinity
+    );
+    // Pages saved by an interrupted first fetch sit above a mark of '0' and don't count.
+    const isContiguous = !parsed.filtered && (cachedLatest === 0 || importOldestId <= cachedLatest);
+    const latestFetchedSubmissionId = isContiguous ?
+        getLatestSubmissionId(parsed.submissions, cached.latestFetchedSubmissionId) :
+        cached.latestFetchedSubmissionId;
+
+    if (imported > 0) {
+        await saveSubmissionsToStorage(username, merged.submissions, latestFetchedSubmissionId);
+    }
+
+    const cachedMetadata = await loadProblemMetadataFromStorage();
+    let metadataAdded = 0;
+    for (const [slug, metadata] of Object.entries(parsed.metadata)) {
+        if (!cachedMetadata[slug]) {
+            // Left without a fetch time, so the background refresh re-checks them over time.
+            cachedMetadata[slug] = metadata;
+            metadataAdded++;
+        }
+    }
+    if (metadataAdded > 0) {
+        await saveProblemMetadataToStorage(cachedMetadata);
+    }
+
+    return { imported, duplicates: merged.duplicates, metadataAdded };
+}
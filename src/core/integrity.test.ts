@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { RawSubmission } from '../types';
+import { checkSubmissionIntegrity } from './integrity';
+
+/** Builds submissions from [id, minutes after the first] pairs, in the given (stored) order. */
+function makeSubmissions(entries: [number, number][], status: number = 10): RawSubmission[] {
+    return entries.map(([id, minute]) => ({
+        id: String(id),
+        title: `Problem ${id}`,
+        titleSlug: `problem-${id}`,
+        status,
+        lang: 'python3',
+        timestamp: String(1700000000 + minute * 60),
+    }));
+}
+
+const run = (from: number, to: number): [number, number][] =>
+    Array.from({ length: to - from + 1 }, (_, i): [number, number] => [to - i, (to - i) * 10]);
+
+describe('checkSubmissionIntegrity', () => {
+    it('reports nothing for a clean cache', () => {
+        const report = checkSubmissionIntegrity(makeSubmissions(run(1, 20)), 20);
+        expect(report).toMatchObject({ orderingAnomalies: 0, acceptedShortfall: 0, resyncFromId: null });
+    });
+
+    it('resyncs from just below the oldest side of an anomaly', () => {
+        const entries = run(100, 120);
+        // 110 is stamped after 111, so either one may be wrong.
+        entries[entries.findIndex(([id]) => id === 110)][1] = 2000;
+        const report = checkSubmissionIntegrity(makeSubmissions(entries), null);
+
+        expect(report.orderingAnomalies).toBe(1);
+        expect(report.resyncFromId).toBe('109');
+    });
+
+    it('never falls back to a full refetch for an anomaly in the first entries', () => {
+        const entries = run(100, 110);
+        entries[entries.findIndex(([id]) => id === 100)][1] = 5000;
+        expect(checkSubmissionIntegrity(makeSubmissions(entries), null).resyncFromId).toBe('99');
+    });
+
+    it('anchors a shortfall on the newest submission of the oldest fetch run', () => {
+        // Stored one fetch at a time, newest first within each.
+        const submissions = makeSubmissions([...run(1, 10), ...run(15, 20)]);
+        const report = checkSubmissionIntegrity(submissions, 20);
+
+        expect(report.acceptedShortfall).toBe(4);
+        expect(report.resyncFromId).toBe('10');
+    });
+
+    it('offers no resync for a shortfall in a single fetch run', () => {
+        const report = checkSubmissionIntegrity(makeSubmissions(run(1, 10)), 12);
+
+        expect(report.acceptedShortfall).toBe(2);
+        expect(report.resyncFromId).toBeNull();
+    });
+
+    it('ignores what the last resync could not fix', () => {
+        const report = checkSubmissionIntegrity(makeSubmissions([...run(1, 10), ...run(15, 20)]), 20, {
+            at: 0,
+            orderingAnomalies: 0,
+            acceptedShortfall: 4,
+        });
+        expect(report.resyncFromId).toBeNull();
+    });
+});
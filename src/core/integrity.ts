@@ -0,0 +1,147 @@
+import type { RawSubmission, IntegrityReport, ResyncRecord } from '../types';
+import { getLatestSubmissionId } from './submissionCodec';
+
+// Submission ids and timestamps are both assigned on submit, but allow a little clock
+// skew before treating a backwards timestamp as corruption.
+const ORDERING_TOLERANCE_SECONDS = 60;
+
+/**
+ * Merges submission lists, keeping the first occurrence of each id.
+ * @param lists The lists to merge, in priority order.
+ * @returns The merged list and the number of duplicates dropped.
+ */
+export function mergeSubmissions(...lists: RawSubmission[][]): { submissions: RawSubmission[]; duplicates: number } {
+    const seenIds = new Set<string>();
+    const submissions: RawSubmission[] = [];
+    let duplicates = 0;
+
+    for (const list of lists) {
+        for (const sub of list) {
+            if (seenIds.has(sub.id)) {
+                duplicates++;
+                continue;
+            }
+            seenIds.add(sub.id);
+            submissions.push(sub);
+        }
+    }
+
+    return { submissions, duplicates };
+}
+
+/**
+ * Repairs problems in the cache that can be fixed without touching the network:
+ * duplicate ids, and a `latestFetchedSubmissionId` ahead of the newest cached
+ * submission (which would make the next incremental fetch skip a range).
+ *
+ * A mark behind the newest cached submission is left alone: an import that may have
+ * gaps keeps it there on purpose, so the next fetch fills them in.
+ * @param submissions The cached submissions.
+ * @param latestFetchedSubmissionId The stored high-water mark.
+ * @returns The repaired cache, and whether anything changed.
+ */
+export function repairSubmissionCache(
+    submissions: RawSubmission[],
+    latestFetchedSubmissionId: string
+): { submissions: RawSubmission[]; latestFetchedSubmissionId: string; repaired: boolean } {
+    const merged = mergeSubmissions(submissions);
+    const latestCachedId = getLatestSubmissionId(merged.submissions);
+    const isAheadOfCache = parseInt(latestFetchedSubmissionId, 10) > parseInt(latestCachedId, 10);
+    const repairedMark = isAheadOfCache ? latestCachedId : latestFetchedSubmissionId;
+
+    return {
+        submissions: merged.submissions,
+        latestFetchedSubmissionId: repairedMark,
+        repaired: merged.duplicates > 0 || isAheadOfCache,
+    };
+}
+
+/**
+ * Counts adjacent submissions whose timestamps run backwards when ordered by id.
+ * @returns The number of anomalies and the index (in id order) of the first one, or -1.
+ */
+function findOrderingAnomalies(byId: RawSubmission[]): { count: number; firstIndex: number } {
+    let count = 0;
+    let firstIndex = -1;
+    for (let i = 1; i < byId.length; i++) {
+        if (parseInt(byId[i].timestamp, 10) + ORDERING_TOLERANCE_SECONDS < parseInt(byId[i - 1].timestamp, 10)) {
+            count++;
+            if (firstIndex === -1) firstIndex = i;
+        }
+    }
+    return { count, firstIndex };
+}
+
+/**
+ * Counts the ordering anomalies in a submission list.
+ */
+export function countOrderingAnomalies(submissions: RawSubmission[]): number {
+    const byId = [...submissions].sort((a, b) => parseInt(a.id, 10) - parseInt(b.id, 10));
+    return findOrderingAnomalies(byId).count;
+}
+
+/**
+ * Finds the newest submission of the oldest fetch run. The cache is stored one fetch
+ * at a time, newest first within each, so a run boundary is where the id goes up.
+ * Gaps are most likely just above the first run, where an incomplete later fetch
+ * would have stopped short.
+ */
+function findFirstRunNewestId(submissions: RawSubmission[]): string | null {
+    for (let i = 1; i < submissions.length; i++) {
+        if (parseInt(submissions[i].id, 10) > parseInt(submissions[i - 1].id, 10)) {
+            return submissions[0].id;
+        }
+    }
+    // A single run has nothing to anchor on, and re-checking the whole history is no
+    // better than a fresh fetch, so no re-sync is offered.
+    return null;
+}
+
+/**
+ * Checks a deduplicated submission list for ordering anomalies and compares its
+ * accepted count with LeetCode's total, and works out how far back a re-sync must
+ * reach to repair it.
+ * @param submissions The submissions, in stored order.
+ * @param expectedAccepted LeetCode's accepted submission total, or null if unknown.
+ * @param lastResync The outcome of the previous re-sync, if any.
+ * @returns The integrity report.
+ */
+export function checkSubmissionIntegrity(
+    submissions: RawSubmission[],
+    expectedAccepted: number | null,
+    lastResync?: ResyncRecord
+): IntegrityReport {
+    const byId = [...submissions].sort((a, b) => parseInt(a.id, 10) - parseInt(b.id, 10));
+
+    let { count: orderingAnomalies, firstIndex: firstAnomalyIndex } = findOrderingAnomalies(byId);
+
+    // Anything a re-sync already failed to fix is in LeetCode's own data, not a gap in the cache.
+    if (lastResync && orderingAnomalies <= lastResync.orderingAnomalies) {
+        orderingAnomalies = 0;
+        firstAnomalyIndex = -1;
+    }
+
+    const cachedAccepted = submissions.filter(s => s.status === 10).length;
+    const shortfall = expectedAccepted === null ? 0 : Math.max(expectedAccepted - cachedAccepted, 0);
+    const acceptedShortfall = lastResync && shortfall <= lastResync.acceptedShortfall ? 0 : shortfall;
+
+    const resyncCandidates: string[] = [];
+    if (firstAnomalyIndex !== -1) {
+        // Either side of the first backwards pair may be wrong, so start just below both.
+        resyncCandidates.push(String(parseInt(byId[firstAnomalyIndex - 1].id, 10) - 1));
+    }
+    const firstRunNewestId = acceptedShortfall > 0 ? findFirstRunNewestId(submissions) : null;
+    if (firstRunNewestId !== null) {
+        resyncCandidates.push(firstRunNewestId);
+    }
+
+    return {
+        orderingAnomalies,
+        cachedAccepted,
+        expectedAccepted,
+        acceptedShortfall,
+        resyncFromId: resyncCandidates.length > 0 ?
+            resyncCandidates.reduce((a, b) => (parseInt(a, 10) <= parseInt(b, 10) ? a : b)) :
+            null,
+    };
+}
@@ -1,19 +1,58 @@
-import type { RawSubmission, CachedMetadata, ILoader } from '../types';
+import type { RawSubmission, CachedSubmissions, CachedMetadata, MetadataFailures, ILoader, ResyncOffer } from '../types';
 import {
     fetchUserStatus,
     fetchTotalAcceptedSubmissions,
     fetchAllSubmissions,
-    fetchProblemMetadata,
+    fetchProblemMetadataBatch,
 } from './api';
 import {
+    appendSubmissionsToStorage,
     saveSubmissionsToStorage,
     loadSubmissionsFromStorage,
+    hasCachedSubmissions,
+    saveResyncRecord,
     loadProblemMetadataFromStorage,
     saveProblemMetadataToStorage,
+    loadMetadataFailuresFromStorage,
+    saveMetadataFailuresToStorage,
+    loadBackfillCheckpoint,
+    saveBackfillCheckpoint,
+    clearBackfillCheckpoint,
+    loadDashboardViewState,
+    saveDashboardViewState,
+    loadAnalyticsSettings,
+    saveAnalyticsSettings,
+    loadGoals,
+    saveGoals,
 } from './storage';
+import { configureGraphQLClient, LeetCodeApiError } from './graphql';
+import {
+    stampMetadata,
+    getMetadataStatus,
+    selectStaleMetadata,
+    recordMetadataFailure,
+    shouldRetryMetadata,
+} from './metadata';
+import {
+    mergeSubmissions,
+    repairSubmissionCache,
+    checkSubmissionIntegrity,
+    countOrderingAnomalies,
+} from './integrity';
+import { importSubmissionHistory } from './importer';
+import { getLatestSubmissionId } from './submissionCodec';
 import { processData } from '../analysis/processor';
+import { setActiveTimeZone } from '../analysis/timezone';
+import { setCalendarSettings } from '../analysis/calendar';
 import { renderPageLayout } from '../ui/layout';
 
+// Problems requested per aliased metadata query, and how many of those queries run at once.
+const METADATA_BATCH_SIZE = 25;
+const METADATA_CONCURRENCY = 2;
+
+// How many stale metadata entries are re-fetched in the background on each visit.
+const METADATA_REFRESH_PER_VISIT = 50;
+
 /**
  * The main orchestrator function for the extension.
  */
@@ -26,8 +65,19 @@ export async function initialize(loader: ILoader): Promise<void> {
     }
     const profileUsername = usernameMatch[1];
 
+    // Surface backoff waits in the loader so a slow fetch doesn't look stuck.
+    configureGraphQLClient({
+        onRetry: ({ delayMs, error }) => loader.notice(describeRetry(error, delayMs)),
+    });
+
     // 2. Fetch the current user's login status from LeetCode.
-    const userStatus = await fetchUserStatus();
+    const userStatusResult = await fetchUserStatus();
+    if (!userStatusResult.ok) {
+        loader.show();
+        loader.error(describeApiError(userStatusResult.error));
+        return;
+    }
+    const userStatus = userStatusResult.data;
 
     // 3. Conditional Logic: Decide whether to run the extension.
     if (!userStatus.isSignedIn) {
@@ -38,7 +88,8 @@ export async function initialize(loader: ILoader): Promise<void> {
     }
 
     if (userStatus.username !== profileUsername) {
-        // User is logged in, but this is not their profile page. Do nothing.
+        // User is logged in, but this is not their profile page. Do nothing. This includes
+        // dashboard links from someone else, since stats are only built from your own history.
         return;
     }
 
@@ -49,79 +100,341 @@ export async function initialize(loader: ILoader): Promise<void> {
         loader.show();
 
         // 4. Get total accepted submissions for the progress bar.
-        const totalAccepted = await fetchTotalAcceptedSubmissions(loggedInUsername);
-
-        // 5. Load cached data for the logged-in user.
-        const cachedSubmissionsData = await loadSubmissionsFromStorage(loggedInUsername);
-        const cachedMetadata = await loadProblemMetadataFromStorage();
-
-        const acceptedInCache = cachedSubmissionsData.submissions.filter(s => s.status === 10).length;
-        const totalInCache = cachedSubmissionsData.submissions.length;
+        // This only drives the progress bar, so a failure here is not fatal.
+        const totalAcceptedResult = await fetchTotalAcceptedSubmissions(loggedInUsername);
+        const totalAccepted = totalAcceptedResult.ok ? totalAcceptedResult.data : 0;
 
-        // Immediately update loader with count from cache.
-        loader.update(totalInCache, acceptedInCache, totalAccepted);
+        // 5-6. Load the cache and fetch anything newer. With nothing cached (e.g. on a new
+        // machine), importing an export is offered in the loader; a successful import stops
+        // the full fetch, which then restarts from the imported history.
+        const importController = new AbortController();
+        const importState: { pending: Promise<void> | null } = { pending: null };
+        const isFirstFetch = !(await hasCachedSubmissions(loggedInUsername));
+        const firstSync = syncSubmissions(loggedInUsername, totalAccepted, loader, importController.signal);
+        const withdrawImportOffer = isFirstFetch ? loader.offerImport(text => {
+            importController.abort();
+            // Wait for the fetch to stop, so the import is the only thing writing the cache.
+            const result = firstSync.catch(() => {}).then(() => importSubmissionHistory(loggedInUsername, text));
+            // A failed import is reported in the loader; the fetch restarts either way.
+            importState.pending = result.then(() => {}, () => {});
+            return result;
+        }) : () => {};
 
-        // 6. Fetch new submissions with progress tracking.
-        const onProgress = (progress: { accepted: number; total: number }) => {
-            loader.update(
-                totalInCache + progress.total,
-                acceptedInCache + progress.accepted,
-                totalAccepted
-            );
-        };
+        let synced = await firstSync.catch(err => {
+            if (!importController.signal.aborted) throw err;
+            return null;
+        });
+        withdrawImportOffer();
+        if (importState.pending || !synced) {
+            await importState.pending;
+            synced = await syncSubmissions(loggedInUsername, totalAccepted, loader);
+        }
+        const { storedSubmissionsData, allSubmissions } = synced;
+        // Loaded after the sync, since an import can bring metadata with it.
+        const cachedMetadata = await loadProblemMetadataFromStorage();
+        const metadataFailures = await loadMetadataFailuresFromStorage();
 
-        const newSubmissions = await fetchAllSubmissions(
-            cachedSubmissionsData.latestFetchedSubmissionId,
-            onProgress
+        // 7. Check what cannot be repaired locally, and offer a targeted re-sync for it.
+        const integrityReport = checkSubmissionIntegrity(
+            allSubmissions,
+            totalAcceptedResult.ok ? totalAccepted : null,
+            storedSubmissionsData.lastResync
         );
+        const resyncFromId = integrityReport.resyncFromId;
+        const resyncOffer: ResyncOffer | undefined = resyncFromId !== null ? {
+            report: integrityReport,
+            resync: onResyncProgress => resyncSubmissions(
+                loggedInUsername,
+                allSubmissions,
+                resyncFromId,
+                totalAcceptedResult.ok ? totalAccepted : null,
+                onResyncProgress
+            ),
+        } : undefined;
 
-        const allSubmissions = [...cachedSubmissionsData.submissions, ...newSubmissions];
-
-        // If there are any new submissions, save the combined list back to storage.
-        if (newSubmissions.length > 0) {
-            await saveSubmissionsToStorage(loggedInUsername, allSubmissions);
-        }
+        // Dates are bucketed in the chosen timezone and day boundaries from here on.
+        const analyticsSettings = await loadAnalyticsSettings();
+        setActiveTimeZone(analyticsSettings.timeZone);
+        setCalendarSettings(analyticsSettings);
 
         // Now, decide whether to render charts or the empty state.
         if (allSubmissions.length > 0) {
-            const metadataResult = await fetchAndSaveMissingMetadata(allSubmissions, cachedMetadata);
+            const metadataResult = await fetchAndSaveMissingMetadata(allSubmissions, cachedMetadata, metadataFailures, loader);
             const processedData = processData(allSubmissions, metadataResult.updatedMetadata);
-            renderPageLayout(processedData, profileUsername);
+            renderPageLayout(processedData, profileUsername, {
+                metadataStatus: getMetadataStatus(metadataResult.updatedMetadata, metadataFailures),
+                resyncOffer,
+                importHistory: text => importSubmissionHistory(loggedInUsername, text),
+                viewState: {
+                    saved: await loadDashboardViewState(loggedInUsername),
+                    save: state => saveDashboardViewState(loggedInUsername, state),
+                },
+                settings: {
+                    current: analyticsSettings,
+                    save: saveAnalyticsSettings,
+                },
+                goals: {
+                    saved: await loadGoals(loggedInUsername),
+                    save: goals => saveGoals(loggedInUsername, goals),
+                },
+            });
+
+            // Refreshed entries are picked up on the next visit; failures just wait for the next one.
+            refreshStaleMetadata(metadataResult.updatedMetadata, metadataFailures).catch(() => {});
         } else {
             const processedData = processData([], {});
-            renderPageLayout(processedData, profileUsername);
+            renderPageLayout(processedData, profileUsername, {
+                importHistory: text => importSubmissionHistory(loggedInUsername, text),
+            });
         }
 
         loader.complete();
 
     } catch (err) {
-        loader.error('An unexpected error occurred.');
+        loader.error(err instanceof LeetCodeApiError ? describeApiError(err) : 'An unexpected error occurred.');
         throw err;
     }
 }
 
 /**
- * Fetches and saves metadata for any problems that are not already in the cache.
+ * Loads a user's cached submissions, repairing duplicates and a stale high-water mark,
+ * then fetches and saves everything newer, checkpointing after every page.
+ * @param username The user to sync.
+ * @param totalAccepted LeetCode's accepted submission total, for the progress bar.
+ * @param loader The loader to report progress to.
+ * @param signal Stops the fetch between pages; the checkpoint is kept.
+ * @returns The cache as loaded, and every submission once the new ones are added.
+ */
+async function syncSubmissions(
+    username: string,
+    totalAccepted: number,
+    loader: ILoader,
+    signal?: AbortSignal
+): Promise<{ storedSubmissionsData: CachedSubmissions; allSubmissions: RawSubmission[] }> {
+    const storedSubmissionsData = await loadSubmissionsFromStorage(username);
+    const cachedSubmissionsData = repairSubmissionCache(
+        storedSubmissionsData.submissions,
+        storedSubmissionsData.latestFetchedSubmissionId
+    );
+    if (cachedSubmissionsData.repaired) {
+        await saveSubmissionsToStorage(
+            username,
+            cachedSubmissionsData.submissions,
+            cachedSubmissionsData.latestFetchedSubmissionId
+        );
+    }
+
+    const acceptedInCache = cachedSubmissionsData.submissions.filter(s => s.status === 10).length;
+    const totalInCache = cachedSubmissionsData.submissions.length;
+
+    // A checkpoint is only usable if it was taken against the cache we just loaded.
+    const checkpoint = await loadBackfillCheckpoint(username);
+    const resumeFrom = checkpoint && checkpoint.baseSubmissionId === cachedSubmissionsData.latestFetchedSubmissionId ?
+        checkpoint :
+        null;
+    // Pages saved before an interruption are already part of the cache.
+    const resumedCount = resumeFrom ? resumeFrom.fetchedCount : 0;
+
+    // Immediately update loader with count from cache and any resumed progress.
+    loader.update(totalInCache, acceptedInCache, totalAccepted, resumedCount);
+
+    const onProgress = (progress: { accepted: number; total: number }) => {
+        loader.update(
+            totalInCache + progress.total,
+            acceptedInCache + progress.accepted,
+            totalAccepted,
+            resumedCount
+        );
+    };
+
+    // Never let a submission already in the cache in twice.
+    const storedIds = new Set(cachedSubmissionsData.submissions.map(s => s.id));
+    const takeUnsaved = (submissions: RawSubmission[]) => submissions.filter(s => {
+        if (storedIds.has(s.id)) return false;
+        storedIds.add(s.id);
+        return true;
+    });
+
+    // Each page is appended as it arrives, under the mark the walk started from, so an
+    // interrupted walk resumes from its checkpoint without leaving a gap behind the mark.
+    const baseMark = cachedSubmissionsData.latestFetchedSubmissionId;
+    const newSubmissions: RawSubmission[] = [];
+    const fetchedSubmissions = await fetchAllSubmissions(
+        baseMark,
+        onProgress,
+        resumeFrom,
+        async (checkpoint, page) => {
+            const unsaved = takeUnsaved(page);
+            await appendSubmissionsToStorage(username, unsaved, baseMark);
+            newSubmissions.push(...unsaved);
+            await saveBackfillCheckpoint(username, checkpoint);
+        },
+        signal
+    );
+    // The last page is never checkpointed; saving it completes the walk, so the mark
+    // can move up to the newest submission.
+    const lastPage = takeUnsaved(fetchedSubmissions);
+    newSubmissions.push(...lastPage);
+    const allSubmissions = [...cachedSubmissionsData.submissions, ...newSubmissions];
+    await appendSubmissionsToStorage(username, lastPage, getLatestSubmissionId(allSubmissions, baseMark));
+    await clearBackfillCheckpoint(username);
+
+    return { storedSubmissionsData, allSubmissions };
+}
+
+/**
+ * Re-fetches every submission newer than `fromId`, corrects cached copies that differ
+ * from LeetCode's and adds any that are missing, leaving the rest of the cache untouched.
+ * @param username The user to re-sync.
+ * @param cachedSubmissions The submissions currently cached.
+ * @param fromId The id to re-fetch from.
+ * @param expectedAccepted LeetCode's accepted submission total, or null if unknown.
+ * @param onProgress Called with the number of submissions checked so far.
+ * @returns The number of submissions recovered or corrected.
+ */
+async function resyncSubmissions(
+    username: string,
+    cachedSubmissions: RawSubmission[],
+    fromId: string,
+    expectedAccepted: number | null,
+    onProgress: (checked: number) => void
+): Promise<number> {
+    const refetched = await fetchAllSubmissions(fromId, progress => onProgress(progress.total));
+    const refetchedById = new Map(refetched.map(s => [s.id, s]));
+
+    let corrected = 0;
+    const correctedCache = cachedSubmissions.map(sub => {
+        const fresh = refetchedById.get(sub.id);
+        if (fresh && (fresh.timestamp !== sub.timestamp || fresh.status !== sub.status)) {
+            corrected++;
+            return fresh;
+        }
+        return sub;
+    });
+    const merged = mergeSubmissions(correctedCache, refetched).submissions;
+    const recovered = merged.length - cachedSubmissions.length;
+
+    if (recovered > 0 || corrected > 0) {
+        await saveSubmissionsToStorage(username, merged);
+    }
+
+    const acceptedAfter = merged.filter(s => s.status === 10).length;
+    await saveResyncRecord(username, {
+        at: Date.now(),
+        acceptedShortfall: expectedAccepted === null ? 0 : Math.max(expectedAccepted - acceptedAfter, 0),
+        orderingAnomalies: countOrderingAnomalies(merged),
+    });
+
+    return recovered + corrected;
+}
+
+/**
+ * Converts an API error into a message for the loader.
+ */
+function describeApiError(error: LeetCodeApiError): string {
+    switch (error.kind) {
+        case 'unauthenticated':
+            return 'Please log in to see stats.';
+        case 'rate_limited':
+            return 'LeetCode is rate limiting requests. Progress is saved; try again later.';
+        case 'schema_changed':
+            return "LeetCode's API has changed. Please update leetStats.";
+        case 'network':
+            return 'Could not reach LeetCode. Progress is saved; try again later.';
+        default:
+            return 'LeetCode is having trouble right now. Progress is saved; try again later.';
+    }
+}
+
+/**
+ * Builds the loader message shown while the GraphQL client waits to retry.
+ */
+function describeRetry(error: LeetCodeApiError, delayMs: number): string {
+    const seconds = Math.ceil(delayMs / 1000);
+    const reason = error.kind === 'rate_limited' ? 'Rate limited' : 'Connection issue';
+    return `${reason}, retrying in ${seconds}s...`;
+}
+
+/**
+ * Fetches metadata for the given slugs in batches using a small pool of workers,
+ * merging each batch into the cache and saving it so a partial run still makes progress.
+ * Slugs that fail are recorded in the failure list so they are retried on a later visit.
+ * @param slugs The slugs to fetch.
+ * @param cachedMetadata The metadata cache to update in place.
+ * @param failures The failed-metadata list to update in place.
+ * @param onProgress Called with the number of slugs processed after every batch.
+ */
+async function fetchMetadataInBatches(
+    slugs: string[],
+    cachedMetadata: CachedMetadata,
+    failures: MetadataFailures,
+    onProgress?: (processed: number) => void
+): Promise<void> {
+    const batches: string[][] = [];
+    for (let i = 0; i < slugs.length; i += METADATA_BATCH_SIZE) {
+        batches.push(slugs.slice(i, i + METADATA_BATCH_SIZE));
+    }
+
+    let processedSlugs = 0;
+
+    const runWorker = async () => {
+        for (let batch = batches.shift(); batch; batch = batches.shift()) {
+            const result = await fetchProblemMetadataBatch(batch);
+
+            if (result.ok) {
+                for (const [slug, metadata] of Object.entries(result.data)) {
+                    if (metadata) {
+                        // Keyed by the slug we asked for, which is what submissions and failures use.
+                        cachedMetadata[slug] = stampMetadata({ ...metadata, slug });
+                        delete failures[slug];
+                    } else {
+                        recordMetadataFailure(failures, slug, 'not_found');
+                    }
+                }
+                await saveProblemMetadataToStorage(cachedMetadata);
+            } else {
+                batch.forEach(slug => recordMetadataFailure(failures, slug, 'request_failed'));
+            }
+            await saveMetadataFailuresToStorage(failures);
+
+            processedSlugs += batch.length;
+            onProgress?.(processedSlugs);
+        }
+    };
+
+    await Promise.all(Array.from({ length: METADATA_CONCURRENCY }, runWorker));
+}
+
+/**
+ * Fetches and saves metadata for any problems that are not already in the cache,
+ * including previously failed slugs that are due for a retry.
  */
 async function fetchAndSaveMissingMetadata(
     submissions: RawSubmission[],
-    cachedMetadata: CachedMetadata
+    cachedMetadata: CachedMetadata,
+    failures: MetadataFailures,
+    loader: ILoader
 ): Promise<{ updatedMetadata: CachedMetadata }> {
     const uniqueSlugs = [...new Set(submissions.map(s => s.titleSlug))];
-    const slugsToFetch = uniqueSlugs.filter(slug => !cachedMetadata[slug]);
+    const slugsToFetch = uniqueSlugs.filter(slug => !cachedMetadata[slug] && shouldRetryMetadata(failures[slug]));
 
     if (slugsToFetch.length > 0) {
-        const promises = slugsToFetch.map(slug => fetchProblemMetadata(slug));
-        const newMetadataArray = await Promise.all(promises);
-
-        for (const metadata of newMetadataArray) {
-            if (metadata) {
-                cachedMetadata[metadata.slug] = metadata;
-            }
-        }
-
-        await saveProblemMetadataToStorage(cachedMetadata);
+        loader.updatePhase('Fetching problem details', 0, slugsToFetch.length);
+        await fetchMetadataInBatches(slugsToFetch, cachedMetadata, failures, processed => {
+            loader.updatePhase('Fetching problem details', processed, slugsToFetch.length);
+        });
     }
 
     return { updatedMetadata: cachedMetadata };
 }
+
+/**
+ * Re-fetches the oldest stale metadata entries so re-tagged problems and difficulty
+ * changes eventually reach the cache.
+ */
+async function refreshStaleMetadata(cachedMetadata: CachedMetadata, failures: MetadataFailures): Promise<void> {
+    const slugsToRefresh = selectStaleMetadata(cachedMetadata, METADATA_REFRESH_PER_VISIT);
+    if (slugsToRefresh.length > 0) {
+        await fetchMetadataInBatches(slugsToRefresh, cachedMetadata, failures);
+    }
+}
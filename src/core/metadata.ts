@@ -0,0 +1,111 @@
+import type { CachedMetadata, MetadataFailure, MetadataFailures, MetadataStatus, ProblemMetadata } from '../types';
+
+/**
+ * The current shape version of cached `ProblemMetadata` entries. Bump this when the
+ * fields fetched for a problem change so older entries are treated as stale.
+ */
+export const METADATA_SCHEMA_VERSION = 1;
+
+// Entries older than this are re-fetched in the background.
+export const METADATA_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// A slug LeetCode reported as missing is only asked about again after this long.
+const NOT_FOUND_RETRY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stamps freshly fetched metadata with the current time and schema version.
+ * @param metadata The metadata as returned by the API.
+ * @returns The metadata ready to be cached.
+ */
+export function stampMetadata(metadata: ProblemMetadata): ProblemMetadata {
+    return {
+        ...metadata,
+        fetchedAt: Date.now(),
+        schemaVersion: METADATA_SCHEMA_VERSION,
+    };
+}
+
+/**
+ * Checks whether a cached entry is due for a refresh, either because it is too old,
+ * was written by an older schema, or predates fetch-time tracking.
+ */
+export function isMetadataStale(metadata: ProblemMetadata, now: number = Date.now()): boolean {
+    if (!metadata.fetchedAt || metadata.schemaVersion !== METADATA_SCHEMA_VERSION) {
+        return true;
+    }
+    return now - metadata.fetchedAt > METADATA_MAX_AGE_MS;
+}
+
+/**
+ * Records a failed metadata fetch for a slug, incrementing its attempt count.
+ * @param failures The failure list to update in place.
+ * @param slug The slug that failed.
+ * @param reason Why it failed.
+ */
+export function recordMetadataFailure(
+    failures: MetadataFailures,
+    slug: string,
+    reason: MetadataFailure['reason']
+): void {
+    failures[slug] = {
+        attempts: (failures[slug]?.attempts || 0) + 1,
+        lastAttemptAt: Date.now(),
+        reason,
+    };
+}
+
+/**
+ * Checks whether a previously failed slug should be requested again on this visit.
+ * Failed requests are always retried; problems LeetCode reported as missing are
+ * retried at most once a day.
+ */
+export function shouldRetryMetadata(failure: MetadataFailure | undefined, now: number = Date.now()): boolean {
+    if (!failure || failure.reason === 'request_failed') {
+        return true;
+    }
+    return now - failure.lastAttemptAt > NOT_FOUND_RETRY_INTERVAL_MS;
+}
+
+/**
+ * Summarises how many cached entries are stale and how many slugs are pending a retry.
+ * @param cachedMetadata The metadata cache.
+ * @param failures The failed-metadata list.
+ * @returns The number of total, stale and failed entries, and the oldest fetch time.
+ */
+export function getMetadataStatus(cachedMetadata: CachedMetadata, failures: MetadataFailures = {}): MetadataStatus {
+    const now = Date.now();
+    let stale = 0;
+    let oldestFetchedAt: number | null = null;
+
+    for (const metadata of Object.values(cachedMetadata)) {
+        if (isMetadataStale(metadata, now)) {
+            stale++;
+        }
+        if (metadata.fetchedAt && (oldestFetchedAt === null || metadata.fetchedAt < oldestFetchedAt)) {
+            oldestFetchedAt = metadata.fetchedAt;
+        }
+    }
+
+    return {
+        total: Object.keys(cachedMetadata).length,
+        stale,
+        oldestFetchedAt,
+        failed: Object.keys(failures).filter(slug => !cachedMetadata[slug]).length,
+    };
+}
+
+/**
+ * Picks the stale entries to refresh on this visit, oldest first. Entries without a
+ * fetch time sort before everything else.
+ * @param cachedMetadata The metadata cache.
+ * @param limit The maximum number of slugs to return.
+ * @returns The slugs to re-fetch.
+ */
+export function selectStaleMetadata(cachedMetadata: CachedMetadata, limit: number): string[] {
+    const now = Date.now();
+    return Object.values(cachedMetadata)
+        .filter(metadata => isMetadataStale(metadata, now))
+        .sort((a, b) => (a.fetchedAt || 0) - (b.fetchedAt || 0))
+        .slice(0, limit)
+        .map(metadata => metadata.slug);
+}
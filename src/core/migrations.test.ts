@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { RawSubmission, SubmissionChunk } from '../types';
+import { migrateStorageItems, getSchemaVersion, CURRENT_SCHEMA_VERSION, type StorageItems } from './migrations';
+import { decodeChunk, SUBMISSION_CHUNK_SIZE } from './submissionCodec';
+
+const USER_DATA_KEY = 'leetStatsUserData';
+
+function makeSubmissions(count: number, firstId: number = 1): RawSubmission[] {
+    return Array.from({ length: count }, (_, i) => ({
+        id: String(firstId + i),
+        title: `Problem ${i % 7}`,
+        titleSlug: `problem-${i % 7}`,
+        status: i % 3 === 0 ? 10 : 11,
+        lang: i % 2 === 0 ? 'python3' : 'cpp',
+        timestamp: String(1700000000 + i * 60),
+    }));
+}
+
+/** Applies a migration result to a snapshot, the way `ensureStorageMigrated` writes it back. */
+function applyResult(items: StorageItems): StorageItems {
+    const result = migrateStorageItems(items);
+    if (!result) return items;
+    const next = { ...items };
+    for (const key of result.remove || []) delete next[key];
+    return { ...next, ...result.set };
+}
+
+describe('getSchemaVersion', () => {
+    it('reads empty storage as null and the unversioned map as 0', () => {
+        expect(getSchemaVersion({})).toBeNull();
+        expect(getSchemaVersion({ [USER_DATA_KEY]: { alice: { submissions: [] } } })).toBe(0);
+        expect(getSchemaVersion({ [USER_DATA_KEY]: { schemaVersion: 2, users: {} } })).toBe(2);
+    });
+});
+
+describe('migrateStorageItems', () => {
+    it('starts a fresh install at the current version', () => {
+        expect(migrateStorageItems({})).toEqual({
+            set: { [USER_DATA_KEY]: { schemaVersion: CURRENT_SCHEMA_VERSION, users: {} } },
+        });
+    });
+
+    it('upgrades the unversioned format through the envelope into chunks', () => {
+        const submissions = makeSubmissions(SUBMISSION_CHUNK_SIZE + 5);
+        const migrated = applyResult({
+            [USER_DATA_KEY]: {
+                alice: { submissions, latestFetchedSubmissionId: '3' },
+                bob: { submissions: [], latestFetchedSubmissionId: '0' },
+            },
+            problemMetadata: { 'problem-0': { slug: 'problem-0', difficulty: 'Easy', topics: [] } },
+        });
+
+        expect(getSchemaVersion(migrated)).toBe(CURRENT_SCHEMA_VERSION);
+        expect(migrated[USER_DATA_KEY]).toEqual({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            users: {
+                // The mark is raised to the newest cached id, never lowered.
+                alice: { latestFetchedSubmissionId: String(SUBMISSION_CHUNK_SIZE + 5), chunkCount: 2, submissionCount: SUBMISSION_CHUNK_SIZE + 5 },
+                bob: { latestFetchedSubmissionId: '0', chunkCount: 0, submissionCount: 0 },
+            },
+        });
+
+        const chunks = [0, 1].map(i => migrated[`leetStatsSubmissions:alice:${i}`]);
+        expect(decodeChunk(chunks[0] as SubmissionChunk)).toHaveLength(SUBMISSION_CHUNK_SIZE);
+        expect([...decodeChunk(chunks[0] as SubmissionChunk), ...decodeChunk(chunks[1] as SubmissionChunk)]).toEqual(submissions);
+        // Data outside the user envelope is left alone.
+        expect(migrated.problemMetadata).toBeDefined();
+    });
+
+    it('does nothing when storage is already current', () => {
+        const items = { [USER_DATA_KEY]: { schemaVersion: CURRENT_SCHEMA_VERSION, users: {} } };
+        expect(migrateStorageItems(items)).toBeNull();
+        expect(migrateStorageItems(applyResult({ [USER_DATA_KEY]: {} }))).toBeNull();
+    });
+
+    it('finishes a half-migrated envelope, replacing chunks left by an interrupted write', () => {
+        const submissions = makeSubmissions(3, 100);
+        const migrated = applyResult({
+            [USER_DATA_KEY]: { schemaVersion: 1, users: { alice: { submissions, latestFetchedSubmissionId: '102' } } },
+            'leetStatsSubmissions:alice:0': { stale: true },
+        });
+
+        expect(migrated[USER_DATA_KEY]).toEqual({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            users: { alice: { latestFetchedSubmissionId: '102', chunkCount: 1, submissionCount: 3 } },
+        });
+        expect(decodeChunk(migrated['leetStatsSubmissions:alice:0'] as SubmissionChunk)).toEqual(submissions);
+    });
+
+    it('tolerates malformed user entries', () => {
+        const migrated = applyResult({ [USER_DATA_KEY]: { schemaVersion: 1, users: { alice: null, bob: { submissions: 'oops' } } } });
+        expect(migrated[USER_DATA_KEY]).toEqual({
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            users: {
+                alice: { latestFetchedSubmissionId: '0', chunkCount: 0, submissionCount: 0 },
+                bob: { latestFetchedSubmissionId: '0', chunkCount: 0, submissionCount: 0 },
+            },
+        });
+    });
+});
@@ -0,0 +1,169 @@
+/**
+ * Storage schema migrations.
+ *
+ * All user data lives in a versioned envelope under `leetStatsUserData`. When the
+ * extension loads, any migrations newer than the envelope's `schemaVersion` run in
+ * order against a snapshot of `chrome.storage.local`, and the result is written back
+ * in one go. Data written before versioning existed (a bare map of usernames) is
+ * treated as version 0.
+ *
+ * To change a stored shape, append a migration with the next version number. Never
+ * edit or reorder a migration that has shipped.
+ */
+
+import type { RawSubmission } from '../types';
+import { encodeChunks, getLatestSubmissionId } from './submissionCodec';
+
+// Migrations describe historical layouts, so they use literal key names rather than
+// the constants in storage.ts, which always describe the current layout.
+const USER_DATA_KEY = 'leetStatsUserData';
+const SUBMISSION_CHUNK_PREFIX = 'leetStatsSubmissions';
+
+/** A snapshot of the items in `chrome.storage.local`. */
+export interface StorageItems {
+    [key: string]: unknown;
+}
+
+/**
+ * Narrows a stored value to a plain object, so its fields can be read safely.
+ * @returns The value, or an empty object if it is missing or not an object.
+ */
+function asRecord(value: unknown): StorageItems {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as StorageItems : {};
+}
+
+/** The changes a single migration makes to storage. */
+export interface MigrationResult {
+    set: StorageItems;
+    remove?: string[];
+}
+
+export interface StorageMigration {
+    /** The schema version storage is at once this migration has run. */
+    version: number;
+    description: string;
+    migrate: (items: StorageItems) => MigrationResult;
+}
+
+export const MIGRATIONS: StorageMigration[] = [
+    {
+        version: 1,
+        description: 'Wrap per-user submission caches in a versioned envelope.',
+        migrate: items => ({
+            set: {
+                [USER_DATA_KEY]: { schemaVersion: 1, users: items[USER_DATA_KEY] || {} },
+            },
+        }),
+    },
+    {
+        version: 2,
+        description: 'Move submissions out of the envelope into compact, append-only chunks.',
+        migrate: items => {
+            const set: StorageItems = {};
+            const users: StorageItems = {};
+
+            const userData = asRecord(items[USER_DATA_KEY]);
+
+            for (const [username, value] of Object.entries(asRecord(userData.users))) {
+                const cached = asRecord(value);
+                const submissions = Array.isArray(cached.submissions) ? cached.submissions as RawSubmission[] : [];
+                const latestFetchedSubmissionId = typeof cached.latestFetchedSubmissionId === 'string' ? cached.latestFetchedSubmissionId : '0';
+                const chunks = encodeChunks(submissions);
+                chunks.forEach((chunk, i) => {
+                    set[`${SUBMISSION_CHUNK_PREFIX}:${username}:${i}`] = chunk;
+                });
+                users[username] = {
+                    latestFetchedSubmissionId: getLatestSubmissionId(submissions, latestFetchedSubmissionId),
+                    chunkCount: chunks.length,
+                    submissionCount: submissions.length,
+                };
+            }
+
+            set[USER_DATA_KEY] = { ...userData, users };
+            return { set };
+        },
+    },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Reads the schema version of a storage snapshot.
+ * @returns The stored version, 0 for pre-versioning data, or null for empty storage.
+ */
+export function getSchemaVersion(items: StorageItems): number | null {
+    if (!items[USER_DATA_KEY]) {
+        return null;
+    }
+    const { schemaVersion } = asRecord(items[USER_DATA_KEY]);
+    return typeof schemaVersion === 'number' ? schemaVersion : 0;
+}
+
+/**
+ * Applies every migration newer than the snapshot's version, in order. This is pure:
+ * it works on a copy and returns the keys to write and remove.
+ * @param items A snapshot of storage.
+ * @returns The combined changes, or null if the snapshot is already current.
+ */
+export function migrateStorageItems(items: StorageItems): MigrationResult | null {
+    const version = getSchemaVersion(items);
+    if (version === null) {
+        // Fresh install: start directly at the current version.
+        return { set: { [USER_DATA_KEY]: { schemaVersion: CURRENT_SCHEMA_VERSION, users: {} } } };
+    }
+    if (version >= CURRENT_SCHEMA_VERSION) {
+        return null;
+    }
+
+    const working: StorageItems = { ...items };
+    const set: StorageItems = {};
+    const remove = new Set<string>();
+
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= version) continue;
+
+        const result = migration.migrate(working);
+        for (const [key, value] of Object.entries(result.set)) {
+            working[key] = value;
+            set[key] = value;
+            remove.delete(key);
+        }
+        for (const key of result.remove || []) {
+            delete working[key];
+            delete set[key];
+            remove.add(key);
+        }
+        working[USER_DATA_KEY] = { ...asRecord(working[USER_DATA_KEY]), schemaVersion: migration.version };
+        set[USER_DATA_KEY] = working[USER_DATA_KEY];
+    }
+
+    return { set, remove: [...remove] };
+}
+
+let migrationPromise: Promise<void> | null = null;
+
+/**
+ * Brings `chrome.storage.local` up to the current schema version. Safe to call from
+ * every storage function: the work runs at most once per page load.
+ */
+export function ensureStorageMigrated(): Promise<void> {
+    if (!migrationPromise) {
+        migrationPromise = (async () => {
+            const items = await chrome.storage.local.get(null);
+            const result = migrateStorageItems(items);
+            if (!result) {
+                return;
+            }
+
+            if (result.remove && result.remove.length > 0) {
+                await chrome.storage.local.remove(result.remove);
+            }
+            await chrome.storage.local.set(result.set);
+        })().catch(err => {
+            // Let the next storage call try again rather than caching the failure.
+            migrationPromise = null;
+            throw err;
+        });
+    }
+    return migrationPromise;
+}
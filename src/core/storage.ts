@@ -1,37 +1,175 @@
-import type { RawSubmission, CachedSubmissions, CachedMetadata } from '../types';
+import type {
+    RawSubmission,
+    CachedSubmissions,
+    CachedMetadata,
+    BackfillCheckpoint,
+    MetadataFailures,
+    SubmissionChunk,
+    SubmissionStorageIndex,
+    ResyncRecord,
+    DashboardViewState,
+    AnalyticsSettings,
+    Goal,
+} from '../types';
+import { ensureStorageMigrated, CURRENT_SCHEMA_VERSION } from './migrations';
+import {
+    SUBMISSION_CHUNK_SIZE,
+    createEmptyChunk,
+    appendToChunk,
+    encodeChunks,
+    decodeChunk,
+    getLatestSubmissionId,
+} from './submissionCodec';
 
 // A key to store all user-specific data under one object in chrome.storage.local
 const USER_DATA_KEY = 'leetStatsUserData';
 
-// Defines the structure for storing data for multiple users.
+// A key to store in-progress fetch checkpoints, keyed by username.
+const BACKFILL_KEY = 'leetStatsBackfill';
+
+// A key to store each user's saved dashboard filters and views, keyed by username.
+const VIEW_STATE_KEY = 'leetStatsViewState';
+
+// A key to store the analytics settings, shared by every user of this browser.
+const SETTINGS_KEY = 'leetStatsSettings';
+
+// A key to store each user's goals, keyed by username.
+const GOALS_KEY = 'leetStatsGoals';
+
+const DEFAULT_ANALYTICS_SETTINGS: AnalyticsSettings = {
+    timeZone: null,
+    weekStart: 1,
+    dayRolloverHour: 0,
+};
+
+// A prefix for the keys holding each user's encoded submission chunks.
+const SUBMISSION_CHUNK_PREFIX = 'leetStatsSubmissions';
+
+// Defines the structure for storing data for multiple users, wrapped in a versioned envelope.
+// Submissions themselves live in separate chunk keys; see migrations.ts for older layouts.
 interface UserStorage {
-    [username: string]: CachedSubmissions;
+    schemaVersion: number;
+    users: {
+        [username: string]: SubmissionStorageIndex;
+    };
+}
+
+/**
+ * Builds the storage key for one of a user's submission chunks.
+ */
+export function getSubmissionChunkKey(username: string, chunkNumber: number): string {
+    return `${SUBMISSION_CHUNK_PREFIX}:${username}:${chunkNumber}`;
 }
 
 /**
- * Saves the complete list of submissions for a specific user.
+ * Reads the user data envelope, running any pending migrations first.
+ */
+async function readUserStorage(): Promise<UserStorage> {
+    await ensureStorageMigrated();
+    const data = await chrome.storage.local.get(USER_DATA_KEY);
+    return data[USER_DATA_KEY] || { schemaVersion: CURRENT_SCHEMA_VERSION, users: {} };
+}
+
+/**
+ * Appends newly fetched submissions for a user. Only the last, partially filled chunk
+ * and any new chunks are written; full chunks are left untouched.
+ * @param username The user for whom to save the data.
+ * @param newSubmissions The submissions fetched since the last save.
+ * @param latestFetchedSubmissionId The high-water mark to store. Defaults to the newest
+ * of the stored mark and the new submissions; an unfinished fetch passes its base mark.
+ */
+export async function appendSubmissionsToStorage(
+    username: string,
+    newSubmissions: RawSubmission[],
+    latestFetchedSubmissionId?: string
+): Promise<void> {
+    if (!username) {
+        return;
+    }
+
+    const allUserData = await readUserStorage();
+    const index: SubmissionStorageIndex = allUserData.users[username] || {
+        latestFetchedSubmissionId: '0',
+        chunkCount: 0,
+        submissionCount: 0,
+    };
+    const mark = latestFetchedSubmissionId ?? getLatestSubmissionId(newSubmissions, index.latestFetchedSubmissionId);
+    if (newSubmissions.length === 0 && mark === index.latestFetchedSubmissionId) {
+        return;
+    }
+
+    const itemsToSave: { [key: string]: SubmissionChunk } = {};
+    let remaining = newSubmissions;
+
+    // Top up the last chunk first if it has room.
+    if (index.chunkCount > 0 && index.submissionCount % SUBMISSION_CHUNK_SIZE !== 0) {
+        const lastKey = getSubmissionChunkKey(username, index.chunkCount - 1);
+        const data = await chrome.storage.local.get(lastKey);
+        const lastChunk: SubmissionChunk = data[lastKey] || createEmptyChunk();
+        const room = SUBMISSION_CHUNK_SIZE - lastChunk.ids.length;
+
+        appendToChunk(lastChunk, remaining.slice(0, room));
+        itemsToSave[lastKey] = lastChunk;
+        remaining = remaining.slice(room);
+    }
+
+    encodeChunks(remaining).forEach((chunk, i) => {
+        itemsToSave[getSubmissionChunkKey(username, index.chunkCount + i)] = chunk;
+    });
+
+    allUserData.users[username] = {
+        ...index,
+        latestFetchedSubmissionId: mark,
+        chunkCount: index.chunkCount + Math.ceil(remaining.length / SUBMISSION_CHUNK_SIZE),
+        submissionCount: index.submissionCount + newSubmissions.length,
+    };
+
+    await chrome.storage.local.set({ ...itemsToSave, [USER_DATA_KEY]: allUserData });
+}
+
+/**
+ * Replaces the complete list of submissions for a specific user, rewriting every chunk.
+ * Prefer `appendSubmissionsToStorage` for incremental updates.
  * @param username The user for whom to save the data.
  * @param submissions The list of submissions to save.
+ * @param latestFetchedSubmissionId The high-water mark for the next incremental fetch. Defaults to the newest saved id.
  */
-export async function saveSubmissionsToStorage(username: string, submissions: RawSubmission[]): Promise<void> {
+export async function saveSubmissionsToStorage(
+    username: string,
+    submissions: RawSubmission[],
+    latestFetchedSubmissionId: string = getLatestSubmissionId(submissions)
+): Promise<void> {
     if (!username || submissions.length === 0) {
         return;
     }
 
-    // Find the highest submission ID (assuming IDs are numeric and can be large)
-    const latestSubmissionId = Math.max(...submissions.map(s => parseInt(s.id, 10))).toString();
+    const allUserData = await readUserStorage();
+    const previousIndex = allUserData.users[username];
+    const previousChunkCount = previousIndex?.chunkCount || 0;
 
-    const dataToSave: CachedSubmissions = {
-        submissions,
-        latestFetchedSubmissionId: latestSubmissionId,
+    const chunks = encodeChunks(submissions);
+    const itemsToSave: { [key: string]: SubmissionChunk } = {};
+    chunks.forEach((chunk, i) => {
+        itemsToSave[getSubmissionChunkKey(username, i)] = chunk;
+    });
+
+    allUserData.users[username] = {
+        ...previousIndex,
+        latestFetchedSubmissionId,
+        chunkCount: chunks.length,
+        submissionCount: submissions.length,
     };
 
-    // Retrieve the existing data object, update it, and save it back.
-    const data = await chrome.storage.local.get(USER_DATA_KEY);
-    const allUserData: UserStorage = data[USER_DATA_KEY] || {};
-    allUserData[username] = dataToSave;
+    await chrome.storage.local.set({ ...itemsToSave, [USER_DATA_KEY]: allUserData });
 
-    await chrome.storage.local.set({ [USER_DATA_KEY]: allUserData });
+    // Drop chunks left over from a longer previous history.
+    const staleKeys: string[] = [];
+    for (let i = chunks.length; i < previousChunkCount; i++) {
+        staleKeys.push(getSubmissionChunkKey(username, i));
+    }
+    if (staleKeys.length > 0) {
+        await chrome.storage.local.remove(staleKeys);
+    }
 }
 
 /**
@@ -43,21 +181,65 @@ export async function loadSubmissionsFromStorage(username: string): Promise<Cach
         return { submissions: [], latestFetchedSubmissionId: '0' };
     }
 
-    const data = await chrome.storage.local.get(USER_DATA_KEY);
-    const allUserData: UserStorage = data[USER_DATA_KEY] || {};
+    const allUserData = await readUserStorage();
+    const index = allUserData.users[username];
 
-    // Return the specific user's data, or a default empty object if not found.
-    return allUserData[username] || {
-        submissions: [],
-        latestFetchedSubmissionId: '0',
+    // Return a default empty object if the user has nothing stored.
+    if (!index || index.chunkCount === 0) {
+        return { submissions: [], latestFetchedSubmissionId: '0' };
+    }
+
+    const chunkKeys = Array.from({ length: index.chunkCount }, (_, i) => getSubmissionChunkKey(username, i));
+    const data = await chrome.storage.local.get(chunkKeys);
+    const submissions: RawSubmission[] = [];
+    for (const key of chunkKeys) {
+        if (data[key]) {
+            submissions.push(...decodeChunk(data[key]));
+        }
+    }
+
+    return {
+        submissions,
+        latestFetchedSubmissionId: index.latestFetchedSubmissionId,
+        lastResync: index.lastResync,
     };
 }
 
+/**
+ * Checks whether any submissions are cached for a user, without loading them.
+ * @param username The user to check.
+ */
+export async function hasCachedSubmissions(username: string): Promise<boolean> {
+    if (!username) {
+        return false;
+    }
+
+    const allUserData = await readUserStorage();
+    return (allUserData.users[username]?.submissionCount || 0) > 0;
+}
+
+/**
+ * Records the outcome of a targeted re-sync for a user.
+ * @param username The user whose submissions were re-synced.
+ * @param record What the re-sync left unresolved.
+ */
+export async function saveResyncRecord(username: string, record: ResyncRecord): Promise<void> {
+    const allUserData = await readUserStorage();
+    const index = allUserData.users[username];
+    if (!index) {
+        return;
+    }
+
+    allUserData.users[username] = { ...index, lastResync: record };
+    await chrome.storage.local.set({ [USER_DATA_KEY]: allUserData });
+}
+
 /**
  * Loads the entire problem metadata cache from storage.
  * Metadata is global and not user-specific.
  */
 export async function loadProblemMetadataFromStorage(): Promise<CachedMetadata> {
+    await ensureStorageMigrated();
     const data = await chrome.storage.local.get(['problemMetadata']);
     return data.problemMetadata || {};
 }
@@ -67,4 +249,148 @@ export async function loadProblemMetadataFromStorage(): Promise<CachedMetadata>
  */
 export async function saveProblemMetadataToStorage(metadata: CachedMetadata): Promise<void> {
     await chrome.storage.local.set({ problemMetadata: metadata });
-}
\ No newline at end of file
+}
+
+/**
+ * Loads the list of problems whose metadata could not be fetched.
+ * Like the metadata cache, this list is global and not user-specific.
+ */
+export async function loadMetadataFailuresFromStorage(): Promise<MetadataFailures> {
+    await ensureStorageMigrated();
+    const data = await chrome.storage.local.get(['problemMetadataFailures']);
+    return data.problemMetadataFailures || {};
+}
+
+/**
+ * Saves the list of problems whose metadata could not be fetched.
+ */
+export async function saveMetadataFailuresToStorage(failures: MetadataFailures): Promise<void> {
+    await chrome.storage.local.set({ problemMetadataFailures: failures });
+}
+
+/**
+ * Loads the in-progress fetch checkpoint for a user, if one exists.
+ * @param username The user for whom to load the checkpoint.
+ */
+export async function loadBackfillCheckpoint(username: string): Promise<BackfillCheckpoint | null> {
+    if (!username) {
+        return null;
+    }
+
+    await ensureStorageMigrated();
+    const data = await chrome.storage.local.get(BACKFILL_KEY);
+    const checkpoints: { [username: string]: BackfillCheckpoint } = data[BACKFILL_KEY] || {};
+    return checkpoints[username] || null;
+}
+
+/**
+ * Persists the in-progress fetch checkpoint for a user, replacing any previous one.
+ * @param username The user for whom to save the checkpoint.
+ * @param checkpoint The latest checkpoint.
+ */
+export async function saveBackfillCheckpoint(username: string, checkpoint: BackfillCheckpoint): Promise<void> {
+    if (!username) {
+        return;
+    }
+
+    const data = await chrome.storage.local.get(BACKFILL_KEY);
+    const checkpoints: { [username: string]: BackfillCheckpoint } = data[BACKFILL_KEY] || {};
+    checkpoints[username] = checkpoint;
+
+    await chrome.storage.local.set({ [BACKFILL_KEY]: checkpoints });
+}
+
+/**
+ * Removes the fetch checkpoint for a user once the fetch has finished.
+ * @param username The user whose checkpoint should be cleared.
+ */
+export async function clearBackfillCheckpoint(username: string): Promise<void> {
+    const data = await chrome.storage.local.get(BACKFILL_KEY);
+    const checkpoints: { [username: string]: BackfillCheckpoint } = data[BACKFILL_KEY] || {};
+    if (!checkpoints[username]) {
+        return;
+    }
+
+    delete checkpoints[username];
+    await chrome.storage.local.set({ [BACKFILL_KEY]: checkpoints });
+}
+
+/**
+ * Loads a user's saved dashboard filters and views, if any.
+ * @param username The user for whom to load the state.
+ */
+export async function loadDashboardViewState(username: string): Promise<DashboardViewState | null> {
+    if (!username) {
+        return null;
+    }
+
+    await ensureStorageMigrated();
+    const data = await chrome.storage.local.get(VIEW_STATE_KEY);
+    const states: { [username: string]: DashboardViewState } = data[VIEW_STATE_KEY] || {};
+    return states[username] || null;
+}
+
+/**
+ * Saves a user's dashboard filters and views, replacing any previous state.
+ * @param username The user for whom to save the state.
+ * @param state The current state.
+ */
+export async function saveDashboardViewState(username: string, state: DashboardViewState): Promise<void> {
+    if (!username) {
+        return;
+    }
+
+    const data = await chrome.storage.local.get(VIEW_STATE_KEY);
+    const states: { [username: string]: DashboardViewState } = data[VIEW_STATE_KEY] || {};
+    states[username] = state;
+
+    await chrome.storage.local.set({ [VIEW_STATE_KEY]: states });
+}
+
+/**
+ * Loads the analytics settings. Settings missing from an older save keep their defaults.
+ */
+export async function loadAnalyticsSettings(): Promise<AnalyticsSettings> {
+    await ensureStorageMigrated();
+    const data = await chrome.storage.local.get(SETTINGS_KEY);
+    return { ...DEFAULT_ANALYTICS_SETTINGS, ...data[SETTINGS_KEY] };
+}
+
+/**
+ * Saves the analytics settings, replacing the previous ones.
+ */
+export async function saveAnalyticsSettings(settings: AnalyticsSettings): Promise<void> {
+    await chrome.storage.local.set({ [SETTINGS_KEY]: settings });
+}
+
+/**
+ * Loads a user's goals.
+ * @param username The user for whom to load the goals.
+ */
+export async function loadGoals(username: string): Promise<Goal[]> {
+    if (!username) {
+        return [];
+    }
+
+    await ensureStorageMigrated();
+    const data = await chrome.storage.local.get(GOALS_KEY);
+    const goals: { [username: string]: Goal[] } = data[GOALS_KEY] || {};
+    return goals[username] || [];
+}
+
+/**
+ * Saves a user's goals, replacing the previous ones.
+ * @param username The user for whom to save the goals.
+ * @param goals The current goals.
+ */
+export async function saveGoals(username: string, goals: Goal[]): Promise<void> {
+    if (!username) {
+        return;
+    }
+
+    const data = await chrome.storage.local.get(GOALS_KEY);
+    const allGoals: { [username: string]: Goal[] } = data[GOALS_KEY] || {};
+    allGoals[username] = goals;
+
+    await chrome.storage.local.set({ [GOALS_KEY]: allGoals });
+}
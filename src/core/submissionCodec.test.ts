@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { RawSubmission } from '../types';
+import {
+    SUBMISSION_CHUNK_SIZE,
+    createEmptyChunk,
+    appendToChunk,
+    encodeChunks,
+    decodeChunk,
+    getLatestSubmissionId,
+} from './submissionCodec';
+import { generateSyntheticHistory } from '../test/syntheticHistory';
+
+const decodeAll = (submissions: RawSubmission[]) => encodeChunks(submissions).flatMap(decodeChunk);
+
+describe('encodeChunks / decodeChunk', () => {
+    it('round-trips an empty history', () => {
+        expect(encodeChunks([])).toEqual([]);
+        expect(decodeChunk(createEmptyChunk())).toEqual([]);
+    });
+
+    it.each([
+        1,
+        SUBMISSION_CHUNK_SIZE - 1,
+        SUBMISSION_CHUNK_SIZE,
+        SUBMISSION_CHUNK_SIZE + 1,
+        2 * SUBMISSION_CHUNK_SIZE,
+        2 * SUBMISSION_CHUNK_SIZE + 1,
+    ])('round-trips %i submissions across chunk boundaries', count => {
+        const submissions = generateSyntheticHistory(count);
+        const chunks = encodeChunks(submissions);
+
+        expect(chunks).toHaveLength(Math.ceil(count / SUBMISSION_CHUNK_SIZE));
+        chunks.slice(0, -1).forEach(chunk => expect(chunk.ids).toHaveLength(SUBMISSION_CHUNK_SIZE));
+        expect(decodeAll(submissions)).toEqual(submissions);
+    });
+
+    it('tops up a partial chunk without disturbing what it already holds', () => {
+        const submissions = generateSyntheticHistory(SUBMISSION_CHUNK_SIZE);
+        const chunk = createEmptyChunk();
+        appendToChunk(chunk, submissions.slice(0, 400));
+        appendToChunk(chunk, submissions.slice(400));
+
+        expect(chunk).toEqual(encodeChunks(submissions)[0]);
+        expect(decodeChunk(chunk)).toEqual(submissions);
+    });
+
+    it('halves the stored size of a 10,000-submission history', () => {
+        const submissions = generateSyntheticHistory(10_000);
+        const rawBytes = JSON.stringify(submissions).length;
+        const encodedBytes = JSON.stringify(encodeChunks(submissions)).length;
+
+        expect(decodeAll(submissions)).toEqual(submissions);
+        // About 1.53 MB down to 0.66 MB; `npm run measure:storage` prints the figures.
+        expect(encodedBytes / rawBytes).toBeLessThan(0.55);
+    });
+});
+
+describe('getLatestSubmissionId', () => {
+    it('finds the highest id numerically, not lexically', () => {
+        const submissions = generateSyntheticHistory(3).map((sub, i) => ({ ...sub, id: ['9', '10', '2'][i] }));
+        expect(getLatestSubmissionId(submissions)).toBe('10');
+        expect(getLatestSubmissionId(submissions, '12')).toBe('12');
+        expect(getLatestSubmissionId([])).toBe('0');
+    });
+});
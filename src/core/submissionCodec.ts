@@ -0,0 +1,90 @@
+import type { RawSubmission, SubmissionChunk } from '../types';
+
+// The number of submissions stored per chunk. Full chunks are never rewritten.
+export const SUBMISSION_CHUNK_SIZE = 1000;
+
+/**
+ * Returns a fresh, empty chunk.
+ */
+export function createEmptyChunk(): SubmissionChunk {
+    return { slugs: [], titles: [], langs: [], ids: [], slugIndex: [], langIndex: [], statuses: [], timestamps: [] };
+}
+
+/**
+ * Appends submissions to a chunk in place, interning slugs, titles and languages in
+ * the chunk's own dictionaries.
+ * @param chunk The chunk to append to.
+ * @param submissions The submissions to encode.
+ */
+export function appendToChunk(chunk: SubmissionChunk, submissions: RawSubmission[]): void {
+    const slugLookup = new Map(chunk.slugs.map((slug, i) => [slug, i]));
+    const langLookup = new Map(chunk.langs.map((lang, i) => [lang, i]));
+
+    for (const sub of submissions) {
+        let slugIdx = slugLookup.get(sub.titleSlug);
+        if (slugIdx === undefined) {
+            slugIdx = chunk.slugs.length;
+            chunk.slugs.push(sub.titleSlug);
+            chunk.titles.push(sub.title);
+            slugLookup.set(sub.titleSlug, slugIdx);
+        }
+
+        let langIdx = langLookup.get(sub.lang);
+        if (langIdx === undefined) {
+            langIdx = chunk.langs.length;
+            chunk.langs.push(sub.lang);
+            langLookup.set(sub.lang, langIdx);
+        }
+
+        chunk.ids.push(parseInt(sub.id, 10));
+        chunk.slugIndex.push(slugIdx);
+        chunk.langIndex.push(langIdx);
+        chunk.statuses.push(sub.status);
+        chunk.timestamps.push(parseInt(sub.timestamp, 10));
+    }
+}
+
+/**
+ * Splits submissions into full-size encoded chunks (the last one may be partial).
+ * @param submissions The submissions to encode.
+ * @returns The encoded chunks, in order.
+ */
+export function encodeChunks(submissions: RawSubmission[]): SubmissionChunk[] {
+    const chunks: SubmissionChunk[] = [];
+    for (let i = 0; i < submissions.length; i += SUBMISSION_CHUNK_SIZE) {
+        const chunk = createEmptyChunk();
+        appendToChunk(chunk, submissions.slice(i, i + SUBMISSION_CHUNK_SIZE));
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+/**
+ * Decodes a chunk back into raw submissions.
+ * @param chunk The encoded chunk.
+ * @returns The submissions in the order they were appended.
+ */
+export function decodeChunk(chunk: SubmissionChunk): RawSubmission[] {
+    return chunk.ids.map((id, i) => ({
+        id: String(id),
+        title: chunk.titles[chunk.slugIndex[i]],
+        titleSlug: chunk.slugs[chunk.slugIndex[i]],
+        status: chunk.statuses[i],
+        lang: chunk.langs[chunk.langIndex[i]],
+        timestamp: String(chunk.timestamps[i]),
+    }));
+}
+
+/**
+ * Finds the highest submission ID in a list without spreading it into `Math.max`,
+ * which overflows the call stack on very large histories.
+ * @returns The highest ID, or '0' for an empty list.
+ */
+export function getLatestSubmissionId(submissions: RawSubmission[], currentLatest: string = '0'): string {
+    let latest = parseInt(currentLatest, 10);
+    for (const sub of submissions) {
+        const id = parseInt(sub.id, 10);
+        if (id > latest) latest = id;
+    }
+    return String(latest);
+}
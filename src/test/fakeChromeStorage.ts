@@ -0,0 +1,33 @@
+// Test helpers; nothing in the extension imports this module.
+
+type Items = { [key: string]: unknown };
+
+/**
+ * Replaces `chrome.storage.local` with an in-memory store. Values are copied on the way
+ * in and out, as the real API serialises them.
+ * @param initial The items the store starts with.
+ * @returns The live contents of the store, for assertions.
+ */
+export function installFakeChromeStorage(initial: Items = {}): Items {
+    const items: Items = structuredClone(initial);
+    const pick = (keys: string | string[] | null): Items => {
+        if (keys === null) return structuredClone(items);
+        const result: Items = {};
+        for (const key of Array.isArray(keys) ? keys : [keys]) {
+            if (key in items) result[key] = structuredClone(items[key]);
+        }
+        return result;
+    };
+
+    const local = {
+        get: async (keys: string | string[] | null) => pick(keys),
+        set: async (values: Items) => {
+            Object.assign(items, structuredClone(values));
+        },
+        remove: async (keys: string | string[]) => {
+            for (const key of Array.isArray(keys) ? keys : [keys]) delete items[key];
+        },
+    };
+    (globalThis as unknown as { chrome: unknown }).chrome = { storage: { local } };
+    return items;
+}
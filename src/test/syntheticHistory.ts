@@ -0,0 +1,54 @@
+import type { RawSubmission } from '../types';
+
+// Test and measurement helpers; nothing in the extension imports this module.
+
+const WORDS = ['two', 'sum', 'longest', 'substring', 'without', 'repeating', 'characters', 'median', 'sorted',
+    'arrays', 'palindromic', 'binary', 'tree', 'maximum', 'path', 'minimum', 'window', 'merge', 'intervals',
+    'linked', 'list', 'cycle', 'course', 'schedule', 'word', 'search', 'number', 'islands', 'valid', 'parentheses'];
+const LANGS = ['python3', 'cpp', 'java', 'javascript'];
+const STATUSES = [10, 10, 10, 11, 11, 14, 15, 20];
+
+/**
+ * A small deterministic PRNG (mulberry32), so the synthetic history is identical on every run.
+ */
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Generates a synthetic history shaped like a real one: a few hundred problems with
+ * several attempts each, a favourite language, rising ids and timestamps.
+ */
+export function generateSyntheticHistory(count: number, seed: number = 1): RawSubmission[] {
+    const random = createRandom(seed);
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+    const problems = Array.from({ length: Math.max(1, Math.round(count / 12)) }, (_, i) => {
+        const words = Array.from({ length: 2 + Math.floor(random() * 4) }, () => pick(WORDS));
+        return {
+            title: words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+            titleSlug: `${words.join('-')}-${i}`,
+        };
+    });
+
+    let id = 1_000_000_000;
+    let timestamp = 1_600_000_000;
+    return Array.from({ length: count }, () => {
+        id += 1 + Math.floor(random() * 5000);
+        timestamp += Math.floor(random() * 20000);
+        const problem = pick(problems);
+        return {
+            id: String(id),
+            title: problem.title,
+            titleSlug: problem.titleSlug,
+            status: pick(STATUSES),
+            lang: random() < 0.8 ? LANGS[0] : pick(LANGS),
+            timestamp: String(timestamp),
+        };
+    });
+}
@@ -27,12 +27,118 @@ export interface ProblemMetadata {
   slug: string;
   difficulty: 'Easy' | 'Medium' | 'Hard';
   topics: string[];
+  /** When this entry was fetched (ms since epoch). Entries cached before tracking began have none. */
+  fetchedAt?: number;
+  /** The shape version the entry was written with; see METADATA_SCHEMA_VERSION. */
+  schemaVersion?: number;
+}
+
+/** A record of a problem whose metadata could not be fetched, kept so it can be retried later. */
+export interface MetadataFailure {
+  attempts: number;
+  lastAttemptAt: number;
+  /** 'not_found' when LeetCode has no such problem; otherwise the request itself failed. */
+  reason: 'not_found' | 'request_failed';
+}
+
+/** The shape of the persisted failed-metadata list. */
+export interface MetadataFailures {
+  [slug: string]: MetadataFailure;
+}
+
+/** A summary of how fresh the cached problem metadata is. */
+export interface MetadataStatus {
+  total: number;
+  stale: number;
+  oldestFetchedAt: number | null;
+  /** Slugs whose metadata has failed to fetch and is pending a retry. */
+  failed: number;
 }
 
 /** The shape of the cached submissions object. */
 export interface CachedSubmissions {
   submissions: RawSubmission[];
   latestFetchedSubmissionId: string;
+  lastResync?: ResyncRecord;
+}
+
+/** The outcome of the last targeted re-sync of a user's cached submissions. */
+export interface ResyncRecord {
+  at: number;
+  /** The accepted submissions still missing after the re-sync; a shortfall this size is not reported again. */
+  acceptedShortfall: number;
+  /** The ordering anomalies left after the re-sync, which must be in LeetCode's own data. */
+  orderingAnomalies: number;
+}
+
+/** The result of checking cached submissions against themselves and LeetCode's totals. */
+export interface IntegrityReport {
+  /** Adjacent submissions whose timestamps run backwards when ordered by id. */
+  orderingAnomalies: number;
+  cachedAccepted: number;
+  /** LeetCode's accepted submission total, or null if it could not be fetched. */
+  expectedAccepted: number | null;
+  /** Accepted submissions LeetCode reports that the cache is missing. */
+  acceptedShortfall: number;
+  /** Re-fetching everything newer than this id should repair the cache; null if nothing looks wrong, or only a full refetch could tell. */
+  resyncFromId: string | null;
+}
+
+/** The outcome of importing a JSON export into the cache. */
+export interface ImportSummary {
+  /** Submissions that were not already cached. */
+  imported: number;
+  duplicates: number;
+  /** Problems whose difficulty and topics were filled in from the export. */
+  metadataAdded: number;
+}
+
+/** An integrity problem offered to the user, along with the re-sync that repairs it. */
+export interface ResyncOffer {
+  report: IntegrityReport;
+  /** Runs the re-sync and resolves to the number of submissions recovered or corrected. */
+  resync: (onProgress: (checked: number) => void) => Promise<number>;
+}
+
+/**
+ * A dictionary-encoded block of stored submissions. Each chunk interns its own slugs,
+ * titles and languages, and stores the remaining fields as parallel numeric columns.
+ */
+export interface SubmissionChunk {
+  slugs: string[];
+  /** The title for each entry in `slugs`. */
+  titles: string[];
+  langs: string[];
+  ids: number[];
+  slugIndex: number[];
+  langIndex: number[];
+  statuses: number[];
+  timestamps: number[];
+}
+
+/** The per-user record pointing at that user's stored submission chunks. */
+export interface SubmissionStorageIndex {
+  latestFetchedSubmissionId: string;
+  chunkCount: number;
+  submissionCount: number;
+  lastResync?: ResyncRecord;
+}
+
+/**
+ * The cursor of an in-progress submission fetch, persisted after every page so an
+ * interrupted backfill can pick up where it left off on the next profile visit. The
+ * pages themselves are appended to the submission chunks as they arrive.
+ */
+export interface BackfillCheckpoint {
+  /** The `latestFetchedSubmissionId` the walk started from; a checkpoint is only resumable against the same cache. */
+  baseSubmissionId: string;
+  /** The offset of the next page to request. */
+  offset: number;
+  newestSeenId: string;
+  oldestSeenId: string;
+  /** How many new submissions this walk has fetched and saved so far. */
+  fetchedCount: number;
+  updatedAt: number;
 }
 
 /** The shape of the cached metadata object. */
@@ -59,11 +165,28 @@ export interface UserSubmissionsGraphQLResponse {
 // =================================================================
 
 export type Difficulty = 'All' | 'Easy' | 'Medium' | 'Hard';
-export type TimeRange = 'All Time' | 'Last 30 Days' | 'Last 90 Days' | 'Last 365 Days';
+export type TimeRange = 'All Time' | 'Last 30 Days' | 'Last 90 Days' | 'Last 365 Days' | 'Custom';
+/** An inclusive [start, end] date window, as picked with the brush or the custom range filter. */
+export type DateWindow = [Date, Date];
 export type ClockView = 'HourOfDay' | 'DayOfWeek';
 export type CumulativeView = 'Daily' | 'Monthly' | 'Yearly';
 export type AggregationLevel = 'Daily' | 'Monthly' | 'Yearly';
 
+/**
+ * Describes which submissions are in scope for a stat. Every field is optional; an
+ * omitted or empty field does not filter.
+ */
+export interface FilterSpec {
+  /** A preset range ending now. Ignored when `dateWindow` is set; 'Custom' without a window means all time. */
+  timeRange?: TimeRange;
+  dateWindow?: DateWindow;
+  difficulty?: Difficulty;
+  languages?: string[];
+  /** Matches submissions to problems tagged with any of these topic slugs. */
+  topics?: string[];
+  statuses?: number[];
+}
+
 // =================================================================
 // PROCESSED DATA & SHARED TYPES
 // =================================================================
@@ -92,24 +215,60 @@ export interface TimeSeriesPoint {
 /** A type for the loader controls to pass around. */
 export interface ILoader {
   show: () => void;
-  update: (totalFetched: number, acceptedFetched: number, totalAccepted: number) => void;
+  update: (totalFetched: number, acceptedFetched: number, totalAccepted: number, resumedCount?: number) => void;
+  updatePhase: (label: string, completed: number, total: number) => void;
+  notice: (message: string) => void;
   complete: (finalMessage?: string) => void;
   error: (errorMessage: string) => void;
+  /**
+   * Offers to import an export file instead of waiting for the fetch to finish.
+   * @returns A function that withdraws the offer.
+   */
+  offerImport: (importHistory: (text: string) => Promise<ImportSummary>) => () => void;
 }
 
 // =================================================================
 // CUMULATIVE CHART TYPES
 // =================================================================
 
+/** How many days ahead the progress chart projects the solved counts. */
+export type ForecastHorizon = 30 | 90 | 365;
+
 export interface CumulativeChartStats {
   labels: string[];
   datasets: {
     label: string;
-    data: number[];
+    /** Null where the series has no value, e.g. history lines over forecast labels. */
+    data: (number | null)[];
     borderColor: string;
-    fill: boolean;
+    /** A dataset index to fill to, e.g. '-1' for the previous dataset. */
+    fill: boolean | string;
     tension: number;
+    backgroundColor?: string;
+    borderDash?: number[];
+    borderWidth?: number;
   }[];
+  /** Present when a forecast was asked for and the chart runs up to today. */
+  forecast?: CumulativeForecast;
+}
+
+/** The projected part of the progress chart. */
+export interface CumulativeForecast {
+  /** The index of the first projected label; earlier labels are history. */
+  startIndex: number;
+  horizonDays: ForecastHorizon;
+  /** Problems first solved per day at the recent pace. */
+  pacePerDay: { Easy: number; Medium: number; Hard: number };
+  /** When the next milestones are reached at that pace. */
+  milestones: ForecastMilestone[];
+}
+
+/** A milestone count and the day the recent pace reaches it. */
+export interface ForecastMilestone {
+  /** 'All' for problems solved of any difficulty. */
+  difficulty: Difficulty;
+  milestone: number;
+  date: Date;
 }
 
 // =================================================================
@@ -145,12 +304,37 @@ export interface RecordData {
   chartId?: string;
   mainStat?: string;
   dateStat?: string;
+  /** Marks a running streak that ends today unless there is activity. */
+  isAtRisk?: boolean;
+}
+
+/** A run of consecutive activity days. */
+export interface StreakPeriod {
+  length: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface StreakStats {
+  /** Consecutive days with a submission, up to today, or yesterday if today has none yet. */
+  currentSubmissionStreak: number;
+  /** Consecutive days with an accepted submission, counted the same way. */
+  currentSolveStreak: number;
+  /** Whole days since the last accepted submission, or null if nothing has been solved. */
+  daysSinceLastSolve: number | null;
+  /** The activity day of the last accepted submission. */
+  lastSolveDate: Date | null;
+  /** Whether a submission streak is running but today has no activity yet. */
+  isAtRisk: boolean;
+  /** Submission streaks of at least the minimum length, newest first. */
+  history: StreakPeriod[];
 }
 
 export interface LegacyStats {
   trophies: TrophyData[];
   milestones: MilestoneData[];
   records: RecordData[];
+  streaks: StreakStats;
 }
 
 // =================================================================
@@ -176,12 +360,12 @@ export interface BrushChartData {
   fullTimeRange: { start: Date; end: Date };
 }
 
-export interface InteractiveChartFilters {
+export interface InteractiveChartFilters extends FilterSpec {
   primaryView: 'Submissions' | 'Problems Solved';
   secondaryView: 'Difficulty' | 'Language' | 'Status';
   timeRange: TimeRange;
   difficulty: Difficulty;
-  brushWindow?: [Date, Date];
+  brushWindow?: DateWindow;
 }
 
 export interface TooltipData {
@@ -211,11 +395,275 @@ export interface SkillMatrixData {
     };
   };
   timeRangeStart: string;
+  /** The end of a custom window; absent when the range runs to today. */
+  timeRangeEnd?: string;
 }
 
 export interface SkillMatrixOptions {
-  timeRange: 'Last 30 Days' | 'Last 90 Days' | 'Last 365 Days' | 'All Time';
+  timeRange: TimeRange;
+  /** The picked window when `timeRange` is 'Custom'. */
+  dateWindow?: DateWindow;
   chartView: 'Daily' | 'Monthly' | 'Yearly';
   showDifficultySplit: boolean;
   selectedMetric: 'problemsSolved' | 'avgTries' | 'firstAceRate';
+  /** Topics whose chart rows are open. */
+  expandedTopics?: string[];
+}
+
+// =================================================================
+// CALENDAR HEATMAP
+// =================================================================
+
+export type CalendarMetric = 'Submissions' | 'Problems Solved';
+
+/** One cell of the calendar heatmap. */
+export interface CalendarDay {
+  /** Midnight of the (activity) day. */
+  date: Date;
+  submissions: number;
+  /** Problems with an accepted submission that day, in the order they were first solved. */
+  solved: { slug: string; title: string; difficulty?: ProblemMetadata['difficulty'] }[];
+  /** The column (week of the year, from 0) and row (position in the week) of the cell. */
+  week: number;
+  weekday: number;
+}
+
+export interface CalendarHeatmapData {
+  year: number;
+  /** Years with at least one submission, newest first. */
+  availableYears: number[];
+  /** Every day of the year, in order. */
+  days: CalendarDay[];
+  /** `getDay()` values in row order, starting with the first day of the week. */
+  weekdayOrder: number[];
+}
+
+// =================================================================
+// PROBLEM DETAIL
+// =================================================================
+
+/** One submission in a problem's attempt timeline. */
+export interface ProblemAttempt {
+  id: string;
+  date: Date;
+  status: number;
+  statusLabel: string;
+  lang: string;
+  /** Time since the previous attempt, or null for the first one. */
+  sinceLastAttemptMs: number | null;
+  /** An accepted submission on a later day than the first accepted one. */
+  isResolve: boolean;
+}
+
+export interface ProblemDetailData {
+  slug: string;
+  title: string;
+  difficulty?: ProblemMetadata['difficulty'];
+  topics: string[];
+  /** Every submission, oldest first. */
+  attempts: ProblemAttempt[];
+  firstAttemptDate: Date;
+  firstAcceptedDate: Date | null;
+  /** Time from the first attempt to the first accepted one, or null if unsolved. */
+  timeToFirstAcceptedMs: number | null;
+  /** Attempts up to and including the first accepted one, or null if unsolved. */
+  attemptsToFirstAccepted: number | null;
+  /** The number of later days the problem was solved again. */
+  resolveCount: number;
+}
+
+/** A row of the problem table. */
+export interface ProblemSummary {
+  slug: string;
+  title: string;
+  difficulty?: ProblemMetadata['difficulty'];
+  topics: string[];
+  attempts: number;
+  isSolved: boolean;
+  /** Whether the first attempt was accepted. */
+  firstTryAccepted: boolean;
+  firstAttemptDate: Date;
+  lastAttemptDate: Date;
+  /** Days from the first attempt to the first accepted one, or null if unsolved. */
+  daysToSolve: number | null;
+  languages: string[];
+}
+
+export type ProblemSortKey =
+  | 'title'
+  | 'difficulty'
+  | 'attempts'
+  | 'firstTryAccepted'
+  | 'firstAttemptDate'
+  | 'lastAttemptDate'
+  | 'daysToSolve';
+
+export interface ProblemTableOptions {
+  query: string;
+  sortKey: ProblemSortKey;
+  sortDirection: 'asc' | 'desc';
+  /** The zero-based page shown. */
+  page: number;
+}
+
+// =================================================================
+// REVIEW QUEUE
+// =================================================================
+
+/** A solved problem's place in the spaced-repetition schedule. */
+export interface ReviewItem {
+  slug: string;
+  title: string;
+  difficulty?: ProblemMetadata['difficulty'];
+  /** The day the problem is next due for review. */
+  dueDate: Date;
+  /** Days past the due date; 0 when due today. */
+  daysOverdue: number;
+  /** The current gap between reviews, in days. */
+  intervalDays: number;
+  /** The SM-2 ease factor; lower means the problem has been harder to recall. */
+  easeFactor: number;
+  /** Days the problem was solved, including the first. */
+  solveCount: number;
+  lastSolvedDate: Date;
+}
+
+export interface ReviewQueueData {
+  /** The problems to revisit today, most overdue first. */
+  due: ReviewItem[];
+  /** All problems due today or earlier, of which `due` may show only some. */
+  dueCount: number;
+  /** Problems that become due within the next week. */
+  upcomingCount: number;
+}
+
+// =================================================================
+// UNSOLVED PROBLEMS
+// =================================================================
+
+/** A problem that was attempted but never accepted. */
+export interface UnsolvedProblem {
+  slug: string;
+  title: string;
+  difficulty?: ProblemMetadata['difficulty'];
+  topics: string[];
+  attempts: number;
+  lastAttemptDate: Date;
+  daysSinceLastAttempt: number;
+}
+
+export interface UnsolvedProblemsData {
+  /** Problems attempted within the abandonment threshold, most recent first. */
+  inProgress: UnsolvedProblem[];
+  /** Problems not attempted for longer than the threshold, most recent first. */
+  abandoned: UnsolvedProblem[];
+}
+
+// =================================================================
+// GOALS
+// =================================================================
+
+/** A user-defined target, e.g. 5 Mediums per week or 300 solved by a date. */
+export interface Goal {
+  id: string;
+  /** Weekly and monthly goals repeat each period; total goals count every problem ever solved. */
+  cadence: 'weekly' | 'monthly' | 'total';
+  target: number;
+  difficulty?: ProblemMetadata['difficulty'];
+  topic?: string;
+  /** For total goals, the `YYYY-MM-DD` day to reach the target by. */
+  deadline?: string;
+  /** When the goal was set, in epoch milliseconds; earlier periods are not judged. */
+  createdAt: number;
+}
+
+/** How far along a goal is. */
+export interface GoalProgress {
+  goal: Goal;
+  label: string;
+  /** Problems counted so far, in the current period for weekly and monthly goals. */
+  current: number;
+  isComplete: boolean;
+  /** The day the target is reached at the recent pace, or null if complete or there is no recent progress. */
+  projectedDate: Date | null;
+  /** The last day of the current period, or the deadline. */
+  endDate: Date | null;
+  /** Whether the projection reaches the target by `endDate`; null for total goals without a deadline. */
+  isOnTrack: boolean | null;
+}
+
+/** A goal period or deadline that has passed, and whether it was met. */
+export interface GoalHistoryEntry {
+  goalId: string;
+  label: string;
+  /** The period or deadline judged, e.g. "Week of 06/01/2025". */
+  periodLabel: string;
+  achieved: boolean;
+  count: number;
+  target: number;
+  /** When the entry was decided: the day the target was hit, or the end of the period. */
+  date: Date;
+}
+
+export interface GoalStats {
+  goals: GoalProgress[];
+  /** Hits and misses across all goals, newest first. */
+  history: GoalHistoryEntry[];
+}
+
+/** A user's saved goals, and how to replace them. */
+export interface GoalStore {
+  saved: Goal[];
+  save: (goals: Goal[]) => Promise<void>;
+}
+
+// =================================================================
+// SAVED VIEW STATE
+// =================================================================
+
+/** A date window as saved to storage, in epoch milliseconds. */
+export type StoredDateWindow = [number, number];
+
+/** The dashboard's filters and chart views, saved per user between visits. */
+export interface DashboardViewState {
+  filters: {
+    timeRange: TimeRange;
+    dateWindow?: StoredDateWindow;
+    difficulty: Difficulty;
+    languages: string[];
+    topics: string[];
+    statuses: number[];
+    clockView: ClockView;
+    cumulativeView: CumulativeView;
+  };
+  interactiveChart: {
+    primaryView: InteractiveChartFilters['primaryView'];
+    secondaryView: InteractiveChartFilters['secondaryView'];
+    brushWindow?: StoredDateWindow;
+  };
+  skillMatrix: Omit<SkillMatrixOptions, 'dateWindow'> & {
+    dateWindow?: StoredDateWindow;
+  };
+}
+
+/** Preferences for how submission times are bucketed into hours and days. */
+export interface AnalyticsSettings {
+  /** An IANA zone such as 'Europe/Berlin' or 'UTC', or null for the browser's zone. */
+  timeZone: string | null;
+  /** The first day of the week, as a `Date.getDay()` value (0 = Sunday). */
+  weekStart: number;
+  /** The hour (0-23) at which a day ends; earlier submissions count toward the previous day. */
+  dayRolloverHour: number;
+}
+
+/** The current analytics settings, and how to replace them. */
+export interface SettingsStore {
+  current: AnalyticsSettings;
+  save: (settings: AnalyticsSettings) => Promise<void>;
+}
+
+/** A user's saved view state, and how to replace it. */
+export interface ViewStateStore {
+  saved: DashboardViewState | null;
+  save: (state: DashboardViewState) => Promise<void>;
 }
\ No newline at end of file
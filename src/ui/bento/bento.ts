@@ -16,6 +16,7 @@ import { getSmartCumulativeView } from '../layout';
 import { colors } from '../theme/colors';
 import { toBlob } from 'html-to-image';
 import { styles } from '../theme/styles';
+import { formatTopicName } from '../format';
 
 // --- Module-level state ---
 let legacyStats: LegacyStats | null = null;
@@ -69,10 +70,6 @@ function getOrdinalSuffix(num: number): string {
     return suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0];
 }
 
-function formatTopicName(slug: string): string {
-    return slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
-}
-
 /**
  * Asynchronously renders the bento preview based on current selections.
  * It uses a token system and unique DOM element IDs to handle race conditions,
@@ -800,7 +797,7 @@ async function renderComponentContent(container: HTMLElement, selections: any, s
 export function initializeBentoGenerator(data: ProcessedData, username: string) {
     processedDataCache = data;
     if (!legacyStats) legacyStats = getLegacyStats(data);
-    if (!skillMatrixData) skillMatrixData = getSkillMatrixStats(data, { timeRange: 'All Time', difficulty: 'All' }, 'All Time');
+    if (!skillMatrixData) skillMatrixData = getSkillMatrixStats(data, { timeRange: 'All Time', difficulty: 'All' }, { timeRange: 'All Time' });
     usernameCache = username;
     avatarUrlCache = scrapeAvatarUrl();
 
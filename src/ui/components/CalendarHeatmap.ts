@@ -0,0 +1,285 @@
+import * as d3 from 'd3';
+import type { CalendarDay, CalendarHeatmapData, CalendarMetric } from '../../types';
+import { colors } from '../theme/colors';
+
+export interface CalendarHeatmapInstance {
+  update: (data: CalendarHeatmapData, metric: CalendarMetric) => void;
+  destroy: () => void;
+}
+
+const CELL_SIZE = 11;
+const CELL_GAP = 3;
+const LABEL_WIDTH = 30;
+const HEADER_HEIGHT = 18;
+// Cells beyond this many solved problems are summarised as "+N more" in the tooltip.
+const MAX_TOOLTIP_PROBLEMS = 8;
+// Colour stops for the four activity levels, from the empty colour towards accepted green.
+const LEVEL_STOPS = [0.3, 0.55, 0.8, 1];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const difficultyColors: { [key: string]: string } = {
+  Easy: colors.problems.easy,
+  Medium: colors.problems.medium,
+  Hard: colors.problems.hard,
+};
+
+/**
+ * Reads the value a cell is coloured by.
+ */
+function getDayValue(day: CalendarDay, metric: CalendarMetric): number {
+  return metric === 'Submissions' ? day.submissions : day.solved.length;
+}
+
+/**
+ * Renders a GitHub-style calendar of daily activity for one year, or updates an existing one.
+ * @param container The element to render into.
+ * @param data The calendar data for the selected year.
+ * @param metric Whether cells are coloured by submissions or problems solved.
+ * @param existingInstance An existing instance to replace.
+ * @param config Optional callbacks.
+ * @returns The heatmap instance.
+ */
+export function renderOrUpdateCalendarHeatmap(
+  container: HTMLElement,
+  data: CalendarHeatmapData,
+  metric: CalendarMetric,
+  existingInstance?: CalendarHeatmapInstance,
+  config: {
+    /** Called with the day's midnight when the user clicks a cell. */
+    onDayClick?: (date: Date) => void;
+  } = {}
+): CalendarHeatmapInstance {
+  if (existingInstance) {
+    existingInstance.destroy();
+  }
+
+  while (container.firstChild) {
+    container.removeChild(container.firstChild);
+  }
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'calendar-heatmap-container';
+  const svgElement = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svgElement.setAttribute('width', '100%');
+  const footer = document.createElement('div');
+  footer.className = 'calendar-heatmap-footer';
+  const tooltip = document.createElement('div');
+  tooltip.className = 'chart-tooltip';
+  wrapper.append(svgElement, footer, tooltip);
+  container.appendChild(wrapper);
+
+  const style = document.createElement('style');
+  style.textContent = `
+    .calendar-heatmap-container { font-family: inherit; }
+    .calendar-heatmap-container text { fill: ${colors.text.subtle}; font-size: 9px; font-family: inherit; }
+    .calendar-heatmap-container .calendar-day { cursor: pointer; }
+    .calendar-heatmap-container .calendar-day:hover { stroke: ${colors.text.subtle}; stroke-width: 1px; }
+    .calendar-heatmap-footer { display: flex; justify-content: space-between; align-items: center; margin-top: 8px; font-size: 12px; color: ${colors.text.subtle}; }
+    .calendar-heatmap-legend { display: flex; align-items: center; gap: 3px; }
+    .calendar-heatmap-legend-cell { display: inline-block; width: ${CELL_SIZE}px; height: ${CELL_SIZE}px; border-radius: 2px; }
+    .chart-tooltip {
+      position: absolute; top: 0; left: 0; background: ${colors.background.section}; border: 2px solid ${colors.background.empty};
+      border-radius: 8px; padding: 12px; font-size: 13px; color: ${colors.text.primary};
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2); z-index: 1000; width: max-content;
+      max-width: 300px; opacity: 0; pointer-events: none;
+      transition: opacity 0.2s ease, transform 0.15s ease-out;
+    }
+    .tooltip-header { font-weight: 500; margin-bottom: 8px; color: ${colors.text.primary}; }
+    .tooltip-subheader { margin-bottom: 12px; font-size: 12px; color: ${colors.text.subtle}; }
+    .tooltip-subheader-value { font-weight: 500; color: ${colors.text.primary}; margin-left: 6px; }
+    .tooltip-divider { border-top: 1px solid ${colors.background.secondarySection}; margin: 10px 0; }
+    .tooltip-breakdown-list { list-style: none; padding: 0; margin: 0; display: flex; flex-direction: column; gap: 5px; }
+    .tooltip-breakdown-item { display: flex; align-items: center; justify-content: space-between; font-size: 12px; gap: 16px; }
+    .tooltip-breakdown-label { display: flex; align-items: center; gap: 8px; color: ${colors.text.subtle}; }
+    .tooltip-breakdown-value { font-weight: 500; color: ${colors.text.primary}; }
+    .status-dot { display: inline-block; width: 8px; height: 8px; border-radius: 50%; }
+  `;
+  document.head.appendChild(style);
+
+  let currentData = data;
+  let currentMetric = metric;
+
+  render();
+
+  function getLevelColor(level: number): string {
+    return level === 0 ?
+      colors.background.empty :
+      d3.interpolateRgb(colors.background.empty, colors.status.accepted)(LEVEL_STOPS[level - 1]);
+  }
+
+  function render() {
+    const svg = d3.select(svgElement);
+    svg.selectAll('*').remove();
+
+    const { days, weekdayOrder } = currentData;
+    const weekCount = days[days.length - 1].week + 1;
+    const width = LABEL_WIDTH + weekCount * (CELL_SIZE + CELL_GAP);
+    const height = HEADER_HEIGHT + 7 * (CELL_SIZE + CELL_GAP);
+    // A viewBox lets the calendar scale with the section instead of overflowing it.
+    svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+    const maxValue = d3.max(days, day => getDayValue(day, currentMetric)) || 0;
+    const levelScale = d3.scaleQuantize<number>()
+      .domain([0, Math.max(maxValue, 1)])
+      .range([1, 2, 3, 4]);
+    const getLevel = (value: number) => value === 0 ? 0 : levelScale(value);
+
+    // Month labels sit above the first week containing the 1st of the month.
+    let lastLabelWeek = -Infinity;
+    days.filter(day => day.date.getDate() === 1).forEach(day => {
+      // Skip a label that would overlap the previous one, e.g. when the year starts late in the week.
+      if (day.week - lastLabelWeek < 3) return;
+      lastLabelWeek = day.week;
+      svg.append('text')
+        .attr('x', LABEL_WIDTH + day.week * (CELL_SIZE + CELL_GAP))
+        .attr('y', HEADER_HEIGHT - 6)
+        .text(MONTH_LABELS[day.date.getMonth()]);
+    });
+
+    // Like GitHub, only every other weekday is labelled to keep the column readable.
+    weekdayOrder.forEach((weekday, row) => {
+      if (row % 2 === 0) return;
+      svg.append('text')
+        .attr('x', 0)
+        .attr('y', HEADER_HEIGHT + row * (CELL_SIZE + CELL_GAP) + CELL_SIZE - 2)
+        .text(DAY_LABELS[weekday]);
+    });
+
+    svg.append('g')
+      .selectAll('rect')
+      .data(days)
+      .join('rect')
+      .attr('class', 'calendar-day')
+      .attr('x', day => LABEL_WIDTH + day.week * (CELL_SIZE + CELL_GAP))
+      .attr('y', day => HEADER_HEIGHT + day.weekday * (CELL_SIZE + CELL_GAP))
+      .attr('width', CELL_SIZE)
+      .attr('height', CELL_SIZE)
+      .attr('rx', 2)
+      .attr('ry', 2)
+      .attr('fill', day => getLevelColor(getLevel(getDayValue(day, currentMetric))))
+      .on('mouseover', (event: MouseEvent, day: CalendarDay) => showTooltip(event, day))
+      .on('mouseout', hideTooltip)
+      .on('click', (_event: MouseEvent, day: CalendarDay) => {
+        hideTooltip();
+        config.onDayClick?.(day.date);
+      });
+
+    renderFooter();
+  }
+
+  function renderFooter() {
+    while (footer.firstChild) {
+      footer.removeChild(footer.firstChild);
+    }
+
+    const total = d3.sum(currentData.days, day => getDayValue(day, currentMetric));
+    const summary = document.createElement('span');
+    const noun = currentMetric === 'Submissions' ? 'submission' : 'problem solved';
+    const pluralNoun = currentMetric === 'Submissions' ? 'submissions' : 'problems solved';
+    summary.textContent = `${total} ${total === 1 ? noun : pluralNoun} in ${currentData.year}`;
+
+    const legend = document.createElement('div');
+    legend.className = 'calendar-heatmap-legend';
+    const less = document.createElement('span');
+    less.textContent = 'Less';
+    less.style.marginRight = '4px';
+    legend.appendChild(less);
+    for (let level = 0; level <= LEVEL_STOPS.length; level++) {
+      const cell = document.createElement('span');
+      cell.className = 'calendar-heatmap-legend-cell';
+      cell.style.backgroundColor = getLevelColor(level);
+      legend.appendChild(cell);
+    }
+    const more = document.createElement('span');
+    more.textContent = 'More';
+    more.style.marginLeft = '4px';
+    legend.appendChild(more);
+
+    footer.append(summary, legend);
+  }
+
+  function showTooltip(event: MouseEvent, day: CalendarDay) {
+    while (tooltip.firstChild) {
+      tooltip.removeChild(tooltip.firstChild);
+    }
+
+    const header = document.createElement('div');
+    header.className = 'tooltip-header';
+    header.textContent = day.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    tooltip.appendChild(header);
+
+    const createSubheader = (label: string, value: number) => {
+      const subheader = document.createElement('div');
+      subheader.className = 'tooltip-subheader';
+      subheader.style.marginBottom = '4px';
+      const subheaderValue = document.createElement('span');
+      subheaderValue.className = 'tooltip-subheader-value';
+      subheaderValue.textContent = String(value);
+      subheader.append(`${label}:`, subheaderValue);
+      return subheader;
+    };
+    tooltip.appendChild(createSubheader('Submissions', day.submissions));
+    tooltip.appendChild(createSubheader('Problems Solved', day.solved.length));
+
+    if (day.solved.length > 0) {
+      const divider = document.createElement('div');
+      divider.className = 'tooltip-divider';
+      tooltip.appendChild(divider);
+
+      const list = document.createElement('ul');
+      list.className = 'tooltip-breakdown-list';
+      day.solved.slice(0, MAX_TOOLTIP_PROBLEMS).forEach(problem => {
+        const item = document.createElement('li');
+        item.className = 'tooltip-breakdown-item';
+        const labelSpan = document.createElement('span');
+        labelSpan.className = 'tooltip-breakdown-label';
+        const dot = document.createElement('span');
+        dot.className = 'status-dot';
+        dot.style.backgroundColor = (problem.difficulty && difficultyColors[problem.difficulty]) || colors.text.subtle;
+        labelSpan.append(dot, problem.title);
+        item.appendChild(labelSpan);
+        list.appendChild(item);
+      });
+      if (day.solved.length > MAX_TOOLTIP_PROBLEMS) {
+        const item = document.createElement('li');
+        item.className = 'tooltip-breakdown-item';
+        const labelSpan = document.createElement('span');
+        labelSpan.className = 'tooltip-breakdown-label';
+        labelSpan.textContent = `+${day.solved.length - MAX_TOOLTIP_PROBLEMS} more`;
+        item.appendChild(labelSpan);
+        list.appendChild(item);
+      }
+      tooltip.appendChild(list);
+    }
+
+    // Place the tooltip beside the cell, flipping to the left near the right edge of the window.
+    const cellRect = (event.target as SVGRectElement).getBoundingClientRect();
+    const offset = 10;
+    let left = cellRect.right + offset;
+    if (left + tooltip.offsetWidth > window.innerWidth) {
+      left = cellRect.left - tooltip.offsetWidth - offset;
+    }
+    const top = cellRect.top + cellRect.height / 2 - tooltip.offsetHeight / 2;
+    tooltip.style.opacity = '1';
+    tooltip.style.transform = `translate(${left + window.pageXOffset}px, ${top + window.pageYOffset}px)`;
+  }
+
+  function hideTooltip() {
+    tooltip.style.opacity = '0';
+  }
+
+  return {
+    update: (newData: CalendarHeatmapData, newMetric: CalendarMetric) => {
+      currentData = newData;
+      currentMetric = newMetric;
+      hideTooltip();
+      render();
+    },
+    destroy: () => {
+      d3.select(svgElement).selectAll('*').remove();
+      if (style.parentNode) style.parentNode.removeChild(style);
+    }
+  };
+}
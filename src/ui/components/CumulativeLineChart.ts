@@ -2,7 +2,7 @@ import { Chart, ChartConfiguration, TooltipModel, ChartOptions } from 'chart.js'
 import type { CumulativeChartStats, Difficulty, CumulativeView, TimeRange } from '../../types';
 import { colors } from '../theme/colors';
 
-export type CumulativeLineChartInstance = Chart<'line', number[], string>;
+export type CumulativeLineChartInstance = Chart<'line', (number | null)[], string>;
 
 function getOrdinalSuffix(day: number): string {
     if (day > 3 && day < 21) return 'th';
@@ -123,12 +123,16 @@ export function renderOrUpdateCumulativeLineChart(
 
     const processedChartData = {
         ...chartData,
-        datasets: chartData.datasets.map(dataset => ({
-            ...dataset,
-            pointRadius: config.hidePoints ? 0 : (config.isInteractive ? 0 : 2),
-            pointHoverRadius: config.hidePoints ? 0 : (config.isInteractive ? 4 : 2),
-            borderWidth: config.isInteractive ? 2 : 3,
-        }))
+        datasets: chartData.datasets.map(dataset => {
+            // Lines drawn without a border, like the edges of the forecast band, get no points either.
+            const hidePoints = config.hidePoints || dataset.borderWidth === 0;
+            return {
+                ...dataset,
+                pointRadius: hidePoints ? 0 : (config.isInteractive ? 0 : 2),
+                pointHoverRadius: hidePoints ? 0 : (config.isInteractive ? 4 : 2),
+                borderWidth: dataset.borderWidth ?? (config.isInteractive ? 2 : 3),
+            };
+        })
     };
 
     const handleTooltip = (context: { chart: Chart, tooltip: TooltipModel<'line'> }) => {
@@ -148,6 +152,7 @@ export function renderOrUpdateCumulativeLineChart(
         const rawLabel = tooltipModel.title?.[0] || '';
         const datasets = context.chart.config.data.datasets;
         const date = new Date(rawLabel);
+        const isForecast = !!chartData.forecast && dataIndex >= chartData.forecast.startIndex;
 
         let formattedDate: string;
         if (filters.cumulativeView === 'Yearly') {
@@ -164,15 +169,26 @@ export function renderOrUpdateCumulativeLineChart(
             medium = 0,
             hard = 0;
 
+        // Past today, the solved counts come from the projected lines instead.
+        const solvedSuffix = isForecast ? 'Forecast' : 'Solved';
         datasets.forEach(dataset => {
-            const value = (dataset.data[dataIndex] as number) || 0;
+            const value = (dataset.data[dataIndex] as number | null) || 0;
             if (dataset.label === 'Total Submissions') totalSubmissions = value;
-            if (dataset.label === 'Easy Solved') easy = value;
-            if (dataset.label === 'Medium Solved') medium = value;
-            if (dataset.label === 'Hard Solved') hard = value;
+            if (dataset.label === `Easy ${solvedSuffix}`) easy = Math.round(value);
+            if (dataset.label === `Medium ${solvedSuffix}`) medium = Math.round(value);
+            if (dataset.label === `Hard ${solvedSuffix}`) hard = Math.round(value);
         });
         const totalProblems = easy + medium + hard;
 
+        // The confidence band around a projected count, e.g. "10–14".
+        const getForecastRange = (difficultyLabel: string): string | null => {
+            if (!isForecast) return null;
+            const low = datasets.find(d => d.label === `${difficultyLabel} Forecast Low`)?.data[dataIndex] as number | null | undefined;
+            const high = datasets.find(d => d.label === `${difficultyLabel} Forecast High`)?.data[dataIndex] as number | null | undefined;
+            if (low == null || high == null) return null;
+            return `${Math.round(low)}–${Math.round(high)}`;
+        };
+
         // Clear previous tooltip content safely
         while (tooltipEl.firstChild) {
             tooltipEl.removeChild(tooltipEl.firstChild);
@@ -183,7 +199,7 @@ export function renderOrUpdateCumulativeLineChart(
 
         const header = document.createElement('div');
         header.className = 'tooltip-header';
-        header.textContent = formattedDate;
+        header.textContent = isForecast ? `${formattedDate} (forecast)` : formattedDate;
         tooltipEl.appendChild(header);
 
         const createSubheader = (label: string, value: number) => {
@@ -197,8 +213,12 @@ export function renderOrUpdateCumulativeLineChart(
             return subheader;
         };
 
-        tooltipEl.appendChild(createSubheader('Total Problems Solved: ', totalProblems));
-        tooltipEl.appendChild(createSubheader('Total Submissions: ', totalSubmissions));
+        if (isForecast) {
+            tooltipEl.appendChild(createSubheader('Projected Problems Solved: ', totalProblems));
+        } else {
+            tooltipEl.appendChild(createSubheader('Total Problems Solved: ', totalProblems));
+            tooltipEl.appendChild(createSubheader('Total Submissions: ', totalSubmissions));
+        }
 
         const divider = document.createElement('div');
         divider.className = 'tooltip-divider';
@@ -222,7 +242,8 @@ export function renderOrUpdateCumulativeLineChart(
 
             const valueSpan = document.createElement('span');
             valueSpan.className = 'tooltip-breakdown-value';
-            valueSpan.textContent = String(value);
+            const range = getForecastRange(difficultyLabel);
+            valueSpan.textContent = range ? `${value} (${range})` : String(value);
 
             item.appendChild(label);
             item.appendChild(valueSpan);
@@ -320,7 +341,7 @@ export function renderOrUpdateCumulativeLineChart(
         },
     };
 
-    const chartConfig: ChartConfiguration<'line', number[], string> = {
+    const chartConfig: ChartConfiguration<'line', (number | null)[], string> = {
         type: 'line',
         data: processedChartData,
         options: options,
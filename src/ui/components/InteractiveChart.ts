@@ -7,6 +7,7 @@ import type {
 } from '../../types';
 import { getInteractiveChartStats, getBrushChartData, getTooltipData } from '../../analysis/stats/getInteractiveChartStats';
 import { colors } from '../theme/colors';
+import { zonedNow } from '../../analysis/timezone';
 
 Chart.register(...registerables);
 
@@ -21,7 +22,12 @@ export function renderOrUpdateInteractiveChart(
   processedData: ProcessedData,
   initialFilters: InteractiveChartFilters,
   existingInstance?: InteractiveChartInstance,
-  config: { isBentoMode?: boolean; scales?: any } = {}
+  config: {
+    isBentoMode?: boolean;
+    scales?: any;
+    /** Called after the user switches a view or finishes moving the brush. */
+    onFiltersChange?: (filters: InteractiveChartFilters) => void;
+  } = {}
 ): InteractiveChartInstance {
   if (existingInstance) {
     existingInstance.destroy();
@@ -57,14 +63,16 @@ export function renderOrUpdateInteractiveChart(
     const primaryButtonsContainer = createElement('div', { className: 'text-sd-muted-foreground inline-flex items-center justify-center bg-sd-muted rounded-full p-[1px]' });
     const btnClasses = 'whitespace-nowrap disabled:pointer-events-none disabled:opacity-50 ring-offset-sd-background focus-visible:ring-sd-ring data-[state=active]:text-sd-foreground inline-flex items-center justify-center font-medium transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 data-[state=active]:shadow dark:data-[state=active]:bg-sd-accent data-[state=active]:bg-sd-popover rounded-full px-2 py-[5px] text-xs';
     
-    primaryButtonsContainer.appendChild(createElement('button', { id: 'primary-problems', 'data-view': 'Problems Solved', 'data-state': 'active', className: btnClasses, textContent: 'Problems Solved' }));
-    primaryButtonsContainer.appendChild(createElement('button', { id: 'primary-submissions', 'data-view': 'Submissions', 'data-state': 'inactive', className: btnClasses, textContent: 'Submissions' }));
+    const stateFor = (isActive: boolean) => isActive ? 'active' : 'inactive';
+    const isSubmissionsView = initialFilters.primaryView === 'Submissions';
+    primaryButtonsContainer.appendChild(createElement('button', { id: 'primary-problems', 'data-view': 'Problems Solved', 'data-state': stateFor(!isSubmissionsView), className: btnClasses, textContent: 'Problems Solved' }));
+    primaryButtonsContainer.appendChild(createElement('button', { id: 'primary-submissions', 'data-view': 'Submissions', 'data-state': stateFor(isSubmissionsView), className: btnClasses, textContent: 'Submissions' }));
 
     // Secondary buttons
     const secondaryButtonsContainer = createElement('div', { className: 'text-sd-muted-foreground inline-flex items-center justify-center bg-sd-muted rounded-full p-[1px]' });
-    secondaryButtonsContainer.appendChild(createElement('button', { id: 'secondary-language', 'data-view': 'Language', 'data-state': 'inactive', className: btnClasses, textContent: 'Language' }));
-    secondaryButtonsContainer.appendChild(createElement('button', { id: 'secondary-difficulty', 'data-view': 'Difficulty', 'data-state': 'active', className: btnClasses, textContent: 'Difficulty' }));
-    secondaryButtonsContainer.appendChild(createElement('button', { id: 'secondary-status', 'data-view': 'Status', 'data-state': 'inactive', className: btnClasses, textContent: 'Status' }));
+    secondaryButtonsContainer.appendChild(createElement('button', { id: 'secondary-language', 'data-view': 'Language', 'data-state': stateFor(initialFilters.secondaryView === 'Language'), className: btnClasses, textContent: 'Language' }));
+    secondaryButtonsContainer.appendChild(createElement('button', { id: 'secondary-difficulty', 'data-view': 'Difficulty', 'data-state': stateFor(initialFilters.secondaryView === 'Difficulty'), className: btnClasses, textContent: 'Difficulty' }));
+    secondaryButtonsContainer.appendChild(createElement('button', { id: 'secondary-status', 'data-view': 'Status', 'data-state': stateFor(initialFilters.secondaryView === 'Status'), className: btnClasses, textContent: 'Status' }));
     
     topBar.appendChild(primaryButtonsContainer);
     topBar.appendChild(secondaryButtonsContainer);
@@ -276,7 +284,7 @@ export function renderOrUpdateInteractiveChart(
 
     setTimeout(() => {
       const [minDate, originalMaxDate] = xScale.domain();
-      const today = new Date();
+      const today = zonedNow();
       const maxDate = new Date(Math.max(originalMaxDate.getTime(), today.getTime()));
       if (!minDate || !maxDate) {
         brushG.call(brush.move, [0, width]);
@@ -287,8 +295,11 @@ export function renderOrUpdateInteractiveChart(
       }
       const twelveMonthsAgo = new Date(maxDate);
       twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
-      const initialStartDate = new Date(Math.max(twelveMonthsAgo.getTime(), minDate.getTime()));
-      const initialEndDate = maxDate;
+      // A saved window is kept as long as it still overlaps the data.
+      const savedWindow = initialFilters.brushWindow;
+      const hasSavedWindow = !!savedWindow && savedWindow[0] < maxDate && savedWindow[1] > minDate;
+      const initialStartDate = new Date(Math.max(hasSavedWindow ? savedWindow![0].getTime() : twelveMonthsAgo.getTime(), minDate.getTime()));
+      const initialEndDate = hasSavedWindow ? new Date(Math.min(savedWindow![1].getTime(), maxDate.getTime())) : maxDate;
       const initialX0 = xScale(initialStartDate);
       const initialX1 = xScale(initialEndDate);
       brushG.call(brush.move, [initialX0, initialX1]);
@@ -323,6 +334,7 @@ export function renderOrUpdateInteractiveChart(
       const endDate = xScale.invert(x1);
       currentFilters.brushWindow = [startDate, endDate];
       updateMainChart();
+      if (event.type === 'end') config.onFiltersChange?.(currentFilters);
     }
   }
 
@@ -356,6 +368,7 @@ export function renderOrUpdateInteractiveChart(
         target.setAttribute('data-state', 'active');
         currentFilters.primaryView = newView;
         updateMainChart();
+        config.onFiltersChange?.(currentFilters);
       });
     });
 
@@ -369,6 +382,7 @@ export function renderOrUpdateInteractiveChart(
         target.setAttribute('data-state', 'active');
         currentFilters.secondaryView = newView;
         updateMainChart();
+        config.onFiltersChange?.(currentFilters);
       });
     });
   }
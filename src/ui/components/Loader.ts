@@ -1,5 +1,6 @@
 // src/ui/components/Loader.ts
 import { colors } from '../theme/colors';
+import type { ImportSummary } from '../../types';
 
 export class FetchLoader {
     private loaderElement: HTMLElement | null = null;
@@ -55,7 +56,8 @@ export class FetchLoader {
             }
             
             #leetstats-loader-text,
-            #leetstats-loader-first-time-message {
+            #leetstats-loader-first-time-message,
+            #leetstats-loader-import {
                 color: var(--loader-text-subtle);
                 transition: color 0.3s ease;
             }
@@ -169,16 +171,108 @@ export class FetchLoader {
      * @param totalFetched The total number of all submissions fetched so far.
      * @param acceptedFetched The total number of accepted submissions fetched so far.
      * @param totalAccepted The grand total of accepted submissions for progress calculation.
+     * @param resumedCount The number of submissions restored from an interrupted fetch, if any.
      */
-    public update(totalFetched: number, acceptedFetched: number, totalAccepted: number): void {
+    public update(totalFetched: number, acceptedFetched: number, totalAccepted: number, resumedCount: number = 0): void {
         if (!this.progressTextElement || !this.progressBarFillElement) return;
 
-        this.progressTextElement.textContent = `Fetched ${this.pluralize(totalFetched, 'submission')}...`;
+        this.progressTextElement.textContent = resumedCount > 0 ?
+            `Resumed after ${this.pluralize(resumedCount, 'submission')}, fetched ${totalFetched}...` :
+            `Fetched ${this.pluralize(totalFetched, 'submission')}...`;
 
         const progress = totalAccepted > 0 ? Math.min((acceptedFetched / totalAccepted) * 100, 99) : 0;
         this.progressBarFillElement.style.width = `${progress}%`;
     }
 
+    /**
+     * Switches the loader to a follow-up phase (e.g. fetching problem details) and
+     * shows its progress.
+     * @param label A short description of the phase.
+     * @param completed The number of items processed so far.
+     * @param total The total number of items in this phase.
+     */
+    public updatePhase(label: string, completed: number, total: number): void {
+        if (!this.progressTextElement || !this.progressBarFillElement) return;
+
+        this.progressTextElement.textContent = `${label} (${completed}/${total})...`;
+
+        const progress = total > 0 ? Math.min((completed / total) * 100, 99) : 0;
+        this.progressBarFillElement.style.width = `${progress}%`;
+    }
+
+    /**
+     * Shows a transient status message (e.g. a retry wait) in place of the progress text.
+     * The next progress update replaces it.
+     * @param message The message to show.
+     */
+    public notice(message: string): void {
+        if (!this.progressTextElement) return;
+
+        this.progressTextElement.textContent = message;
+    }
+
+    /**
+     * Offers to import a leetStats export instead of waiting for the first full fetch.
+     * The offer can be used once; its outcome stays visible until the loader hides.
+     * @param importHistory Imports the chosen file's contents into the cache.
+     * @returns A function that withdraws the offer if it has not been used.
+     */
+    public offerImport(importHistory: (text: string) => Promise<ImportSummary>): () => void {
+        if (!this.loaderElement) return () => {};
+
+        const offerElement = document.createElement('div');
+        offerElement.id = 'leetstats-loader-import';
+        Object.assign(offerElement.style, {
+            marginTop: '8px',
+            fontSize: '12px',
+        });
+
+        const offerButton = document.createElement('button');
+        offerButton.type = 'button';
+        offerButton.textContent = 'Have a leetStats export? Import it instead';
+        Object.assign(offerButton.style, {
+            background: 'none',
+            border: 'none',
+            padding: '0',
+            color: 'inherit',
+            cursor: 'pointer',
+            font: 'inherit',
+            textDecoration: 'underline',
+        });
+
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.json,application/json';
+        fileInput.style.display = 'none';
+
+        const status = document.createElement('div');
+
+        offerButton.addEventListener('click', () => fileInput.click());
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+
+            offerButton.remove();
+            fileInput.remove();
+            status.textContent = 'Importing...';
+            try {
+                const summary = await importHistory(await file.text());
+                status.textContent = `Imported ${this.pluralize(summary.imported, 'submission')}; fetching anything newer...`;
+            } catch (err) {
+                status.textContent = err instanceof Error ? `Import failed: ${err.message}` : 'Import failed.';
+            }
+        });
+
+        offerElement.append(offerButton, fileInput, status);
+        this.loaderElement.appendChild(offerElement);
+
+        return () => {
+            if (offerButton.isConnected) {
+                offerElement.remove();
+            }
+        };
+    }
+
     /**
      * Sets the bar to 100% and then animates the loader out of view.
      */
@@ -0,0 +1,201 @@
+import type { ProblemDetailData } from '../../types';
+import { STATUS_MAP, RUNTIME_ERROR_DEFAULT } from '../../analysis/stats/getSubmissionSignatureStats';
+import { colors } from '../theme/colors';
+import { styles } from '../theme/styles';
+import { formatTopicName } from '../format';
+
+export interface ProblemDetailPanelInstance {
+  update: (data: ProblemDetailData) => void;
+  destroy: () => void;
+}
+
+const difficultyColors: { [key: string]: string } = {
+  Easy: colors.problems.easy,
+  Medium: colors.problems.medium,
+  Hard: colors.problems.hard,
+};
+
+/**
+ * Formats an elapsed time with the largest sensible unit, e.g. "45 min" or "3 days".
+ */
+function formatElapsed(ms: number): string {
+  const minutes = Math.round(ms / (60 * 1000));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  const days = Math.round(hours / 24);
+  if (days < 60) return `${days} days`;
+  const months = Math.round(days / 30);
+  if (months < 24) return `${months} months`;
+  return `${Math.round(days / 365)} years`;
+}
+
+/**
+ * Formats a date and time for the attempt timeline.
+ */
+function formatDateTime(date: Date): string {
+  return `${date.toLocaleDateString('en-GB')} ${date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Renders a single problem's story: a summary of how it was solved and every attempt
+ * in order.
+ * @param container The element to render into, e.g. the body of a modal.
+ * @param data The problem's details.
+ * @param existingInstance An existing instance to replace.
+ * @param config Optional callbacks.
+ * @returns The panel instance.
+ */
+export function renderOrUpdateProblemDetailPanel(
+  container: HTMLElement,
+  data: ProblemDetailData,
+  existingInstance?: ProblemDetailPanelInstance,
+  config: {
+    /** Called when the user clicks the close button. */
+    onClose?: () => void;
+  } = {}
+): ProblemDetailPanelInstance {
+  if (existingInstance) {
+    existingInstance.destroy();
+  }
+
+  render(data);
+
+  function render(detail: ProblemDetailData) {
+    while (container.firstChild) {
+      container.removeChild(container.firstChild);
+    }
+
+    // Header: title, difficulty, topics and close button
+    const header = document.createElement('div');
+    header.className = 'flex justify-between items-start gap-4';
+    const titleContainer = document.createElement('div');
+    titleContainer.className = 'flex flex-col gap-1';
+    const title = document.createElement('a');
+    title.className = 'text-xl font-bold text-label-1 dark:text-dark-label-1 hover:underline';
+    title.href = `https://leetcode.com/problems/${detail.slug}/`;
+    title.target = '_blank';
+    title.rel = 'noopener noreferrer';
+    title.textContent = detail.title;
+    const subtitle = document.createElement('div');
+    subtitle.className = 'text-sm text-label-3 dark:text-dark-label-3';
+    const difficulty = document.createElement('span');
+    difficulty.className = 'font-medium';
+    difficulty.style.color = (detail.difficulty && difficultyColors[detail.difficulty]) || colors.text.subtle;
+    difficulty.textContent = detail.difficulty || 'Unknown difficulty';
+    subtitle.appendChild(difficulty);
+    if (detail.topics.length > 0) {
+      subtitle.append(` · ${detail.topics.map(formatTopicName).join(', ')}`);
+    }
+    titleContainer.append(title, subtitle);
+
+    const closeBtn = document.createElement('button');
+    closeBtn.type = 'button';
+    closeBtn.className = 'text-label-2 dark:text-dark-label-2 opacity-70 transition-opacity hover:opacity-100 text-2xl leading-none';
+    closeBtn.setAttribute('aria-label', 'Close');
+    closeBtn.textContent = '×';
+    closeBtn.addEventListener('click', () => config.onClose?.());
+    header.append(titleContainer, closeBtn);
+
+    // Summary
+    const lastAttempt = detail.attempts[detail.attempts.length - 1];
+    const summary = document.createElement('div');
+    summary.className = 'grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 p-4 rounded-lg bg-layer-0 dark:bg-dark-layer-0';
+    const createSummaryItem = (label: string, value: string, context: string) => {
+      const item = document.createElement('div');
+      item.className = 'flex flex-col';
+      const labelSpan = document.createElement('span');
+      labelSpan.className = styles.recordContext;
+      labelSpan.textContent = label;
+      const valueSpan = document.createElement('span');
+      valueSpan.className = styles.recordValue;
+      valueSpan.textContent = value;
+      const contextSpan = document.createElement('span');
+      contextSpan.className = styles.recordContext;
+      contextSpan.textContent = context;
+      item.append(labelSpan, valueSpan, contextSpan);
+      return item;
+    };
+    summary.append(
+      createSummaryItem('Attempts', String(detail.attempts.length), `first on ${detail.firstAttemptDate.toLocaleDateString('en-GB')}`),
+      detail.firstAcceptedDate && detail.timeToFirstAcceptedMs !== null ?
+        createSummaryItem(
+          'First Accepted',
+          detail.timeToFirstAcceptedMs === 0 ? 'First try' : `after ${formatElapsed(detail.timeToFirstAcceptedMs)}`,
+          `on attempt ${detail.attemptsToFirstAccepted}, ${detail.firstAcceptedDate.toLocaleDateString('en-GB')}`
+        ) :
+        createSummaryItem('First Accepted', '—', 'not solved yet'),
+      createSummaryItem('Re-solves', String(detail.resolveCount), 'on later days'),
+      createSummaryItem('Last Attempt', lastAttempt.date.toLocaleDateString('en-GB'), `in ${lastAttempt.lang}`)
+    );
+
+    // Attempt timeline, oldest first
+    const timelineHeader = document.createElement('div');
+    timelineHeader.className = `${styles.subSectionHeader} mt-6`;
+    timelineHeader.textContent = 'Attempts';
+    const timeline = document.createElement('div');
+    timeline.className = 'mt-2 relative';
+    const timelineBar = document.createElement('div');
+    timelineBar.className = 'absolute left-3 top-0 bottom-0 w-0.5 bg-fill-3 dark:bg-dark-fill-3';
+    const list = document.createElement('div');
+    list.className = 'space-y-3';
+
+    detail.attempts.forEach((attempt, i) => {
+      const statusColor = colors.status[(STATUS_MAP[attempt.status] || RUNTIME_ERROR_DEFAULT).colorKey];
+      const item = document.createElement('div');
+      item.className = 'relative';
+      const dot = document.createElement('div');
+      dot.className = 'absolute left-2 top-2 w-2.5 h-2.5 rounded-full';
+      dot.style.backgroundColor = statusColor;
+
+      const row = document.createElement('div');
+      row.className = 'ml-10 flex justify-between items-start gap-4';
+      const left = document.createElement('div');
+      left.className = 'flex flex-col';
+      const status = document.createElement('a');
+      status.className = 'text-sm font-medium hover:underline';
+      status.style.color = statusColor;
+      status.href = `https://leetcode.com/submissions/detail/${attempt.id}/`;
+      status.target = '_blank';
+      status.rel = 'noopener noreferrer';
+      status.textContent = `#${i + 1} ${attempt.statusLabel}`;
+      const meta = document.createElement('span');
+      meta.className = styles.recordContext;
+      meta.textContent = `${formatDateTime(attempt.date)} · ${attempt.lang}`;
+      left.append(status, meta);
+
+      const right = document.createElement('div');
+      right.className = 'flex flex-col items-end';
+      if (attempt.isResolve) {
+        const tag = document.createElement('span');
+        tag.className = 'rounded-full px-2 py-0.5 text-xs font-medium';
+        tag.style.color = colors.status.accepted;
+        tag.style.backgroundColor = 'rgba(44, 187, 93, 0.15)';
+        tag.textContent = 'Re-solve';
+        right.appendChild(tag);
+      }
+      if (attempt.sinceLastAttemptMs !== null) {
+        const gap = document.createElement('span');
+        gap.className = styles.recordContext;
+        gap.textContent = `+${formatElapsed(attempt.sinceLastAttemptMs)}`;
+        right.appendChild(gap);
+      }
+
+      row.append(left, right);
+      item.append(dot, row);
+      list.appendChild(item);
+    });
+    timeline.append(timelineBar, list);
+
+    container.append(header, summary, timelineHeader, timeline);
+  }
+
+  return {
+    update: (newData: ProblemDetailData) => render(newData),
+    destroy: () => {
+      while (container.firstChild) {
+        container.removeChild(container.firstChild);
+      }
+    }
+  };
+}
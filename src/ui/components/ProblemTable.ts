@@ -0,0 +1,207 @@
+import type { ProblemSummary, ProblemSortKey, ProblemTableOptions } from '../../types';
+import { colors } from '../theme/colors';
+import { styles } from '../theme/styles';
+import { formatTopicName } from '../format';
+
+export interface ProblemTableInstance {
+  update: (rows: ProblemSummary[], options: ProblemTableOptions) => void;
+  destroy: () => void;
+}
+
+// Rows per page; a page is small enough to build in one go even for thousands of problems.
+const PROBLEM_TABLE_PAGE_SIZE = 50;
+
+interface Column {
+  label: string;
+  /** The sort key, or undefined for a column that cannot be sorted. */
+  sortKey?: ProblemSortKey;
+  align?: 'right';
+  render: (row: ProblemSummary) => string | HTMLElement;
+}
+
+const difficultyColors: { [key: string]: string } = {
+  Easy: colors.problems.easy,
+  Medium: colors.problems.medium,
+  Hard: colors.problems.hard,
+};
+
+/**
+ * Renders a cell's content that is longer than the column, with the full text as a title.
+ */
+function createTruncatedText(text: string): HTMLElement {
+  const span = document.createElement('span');
+  span.className = 'block truncate max-w-[12rem]';
+  span.title = text;
+  span.textContent = text;
+  return span;
+}
+
+const COLUMNS: Column[] = [
+  { label: 'Title', sortKey: 'title', render: row => row.title },
+  {
+    label: 'Difficulty',
+    sortKey: 'difficulty',
+    render: row => {
+      const span = document.createElement('span');
+      span.style.color = (row.difficulty && difficultyColors[row.difficulty]) || colors.text.subtle;
+      span.textContent = row.difficulty || '—';
+      return span;
+    },
+  },
+  { label: 'Topics', render: row => createTruncatedText(row.topics.map(formatTopicName).join(', ') || '—') },
+  { label: 'Attempts', sortKey: 'attempts', align: 'right', render: row => String(row.attempts) },
+  {
+    label: 'First-Try AC',
+    sortKey: 'firstTryAccepted',
+    render: row => {
+      const span = document.createElement('span');
+      span.style.color = row.firstTryAccepted ? colors.status.accepted : colors.text.subtle;
+      span.textContent = row.firstTryAccepted ? 'Yes' : 'No';
+      return span;
+    },
+  },
+  { label: 'First Attempt', sortKey: 'firstAttemptDate', render: row => row.firstAttemptDate.toLocaleDateString('en-GB') },
+  { label: 'Last Attempt', sortKey: 'lastAttemptDate', render: row => row.lastAttemptDate.toLocaleDateString('en-GB') },
+  {
+    label: 'Days to Solve',
+    sortKey: 'daysToSolve',
+    align: 'right',
+    render: row => row.daysToSolve === null ? 'Unsolved' : String(row.daysToSolve),
+  },
+  { label: 'Languages', render: row => createTruncatedText(row.languages.join(', ')) },
+];
+
+/**
+ * Renders a paged table of problems, or updates an existing one. Rows are expected to be
+ * searched and sorted already; the table only shows the requested page.
+ * @param container The element to render into.
+ * @param rows The rows to show, in order.
+ * @param options The sort column and direction (for the header arrows) and page.
+ * @param existingInstance An existing instance to replace.
+ * @param config Callbacks for header, pager and row clicks.
+ * @returns The table instance.
+ */
+export function renderOrUpdateProblemTable(
+  container: HTMLElement,
+  rows: ProblemSummary[],
+  options: ProblemTableOptions,
+  existingInstance?: ProblemTableInstance,
+  config: {
+    /** Called when the user clicks a sortable column header. */
+    onSortChange?: (key: ProblemSortKey, direction: 'asc' | 'desc') => void;
+    onPageChange?: (page: number) => void;
+    onProblemClick?: (slug: string) => void;
+  } = {}
+): ProblemTableInstance {
+  if (existingInstance) {
+    existingInstance.destroy();
+  }
+
+  render(rows, options);
+
+  function render(currentRows: ProblemSummary[], currentOptions: ProblemTableOptions) {
+    while (container.firstChild) {
+      container.removeChild(container.firstChild);
+    }
+
+    if (currentRows.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = `${styles.recordContext} p-2`;
+      empty.textContent = currentOptions.query ? 'No problems match your search.' : 'No problems match the current filters.';
+      container.appendChild(empty);
+      return;
+    }
+
+    const pageCount = Math.ceil(currentRows.length / PROBLEM_TABLE_PAGE_SIZE);
+    const page = Math.min(Math.max(currentOptions.page, 0), pageCount - 1);
+    const pageRows = currentRows.slice(page * PROBLEM_TABLE_PAGE_SIZE, (page + 1) * PROBLEM_TABLE_PAGE_SIZE);
+
+    const tableWrapper = document.createElement('div');
+    tableWrapper.className = 'overflow-x-auto';
+    const table = document.createElement('table');
+    table.className = 'w-full text-sm';
+
+    // Header
+    const thead = document.createElement('thead');
+    const headerRow = document.createElement('tr');
+    COLUMNS.forEach(column => {
+      const th = document.createElement('th');
+      th.className = `${styles.skillMatrixColumnHeader} p-2 whitespace-nowrap ${column.align === 'right' ? 'text-right' : 'text-left'}`;
+      if (column.sortKey) {
+        const sortKey = column.sortKey;
+        const isSorted = currentOptions.sortKey === sortKey;
+        const btn = document.createElement('button');
+        btn.type = 'button';
+        btn.className = 'uppercase tracking-wider hover:text-gray-200';
+        btn.textContent = isSorted ? `${column.label} ${currentOptions.sortDirection === 'asc' ? '▲' : '▼'}` : column.label;
+        th.setAttribute('aria-sort', isSorted ? (currentOptions.sortDirection === 'asc' ? 'ascending' : 'descending') : 'none');
+        btn.addEventListener('click', () => {
+          // A new column starts ascending; clicking the sorted column flips it.
+          const direction = isSorted && currentOptions.sortDirection === 'asc' ? 'desc' : 'asc';
+          config.onSortChange?.(sortKey, direction);
+        });
+        th.appendChild(btn);
+      } else {
+        th.textContent = column.label;
+      }
+      headerRow.appendChild(th);
+    });
+    thead.appendChild(headerRow);
+
+    // Body
+    const tbody = document.createElement('tbody');
+    pageRows.forEach(row => {
+      const tr = document.createElement('tr');
+      tr.className = 'cursor-pointer border-t border-divider-3 dark:border-dark-divider-3 hover:bg-fill-3 dark:hover:bg-dark-fill-3';
+      tr.addEventListener('click', () => config.onProblemClick?.(row.slug));
+      COLUMNS.forEach((column, i) => {
+        const td = document.createElement('td');
+        td.className = `p-2 ${i === 0 ? 'text-label-1 dark:text-dark-label-1' : 'text-label-2 dark:text-dark-label-2'} ${column.align === 'right' ? 'text-right' : ''}`;
+        td.append(column.render(row));
+        tr.appendChild(td);
+      });
+      tbody.appendChild(tr);
+    });
+
+    table.append(thead, tbody);
+    tableWrapper.appendChild(table);
+
+    // Pager
+    const pager = document.createElement('div');
+    pager.className = 'flex justify-between items-center mt-4';
+    const range = document.createElement('span');
+    range.className = styles.recordContext;
+    range.textContent = `${page * PROBLEM_TABLE_PAGE_SIZE + 1}–${page * PROBLEM_TABLE_PAGE_SIZE + pageRows.length} of ${currentRows.length}`;
+    const pagerButtons = document.createElement('div');
+    pagerButtons.className = 'flex items-center gap-2';
+    const createPagerBtn = (text: string, targetPage: number, disabled: boolean) => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'rounded px-3 py-1.5 bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2 disabled:opacity-50 disabled:pointer-events-none';
+      btn.textContent = text;
+      btn.disabled = disabled;
+      btn.addEventListener('click', () => config.onPageChange?.(targetPage));
+      return btn;
+    };
+    const pageLabel = document.createElement('span');
+    pageLabel.className = styles.recordContext;
+    pageLabel.textContent = `Page ${page + 1} of ${pageCount}`;
+    pagerButtons.append(
+      createPagerBtn('Previous', page - 1, page === 0),
+      pageLabel,
+      createPagerBtn('Next', page + 1, page >= pageCount - 1)
+    );
+    pager.append(range, pagerButtons);
+
+    container.append(tableWrapper, pager);
+  }
+
+  return {
+    update: (newRows: ProblemSummary[], newOptions: ProblemTableOptions) => render(newRows, newOptions),
+    destroy: () => {
+      while (container.firstChild) {
+        container.removeChild(container.firstChild);
+      }
+    }
+  };
+}
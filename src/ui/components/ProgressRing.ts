@@ -47,7 +47,7 @@ function describeArc(x: number, y: number, radius: number, startAngle: number, e
  * @param data The stats data used to calculate the ring segments and text.
  */
 export function renderProgressRing(container: HTMLElement, data: SolvedStats): void {
-  const { totalSolved, easySolved, mediumSolved, hardSolved, totalSubmissions } = data;
+  const { totalSolved, easySolved, mediumSolved, hardSolved, unknownSolved, totalSubmissions } = data;
 
   // The viewBox defines the coordinate system of the SVG. A smaller viewBox makes the content appear smaller.
   const viewBoxWidth = 180;
@@ -63,10 +63,12 @@ export function renderProgressRing(container: HTMLElement, data: SolvedStats): v
   const easyPercent = totalSolved > 0 ? easySolved / totalSolved : 0;
   const mediumPercent = totalSolved > 0 ? mediumSolved / totalSolved : 0;
   const hardPercent = totalSolved > 0 ? hardSolved / totalSolved : 0;
+  const unknownPercent = totalSolved > 0 ? unknownSolved / totalSolved : 0;
 
   const easyAngle = easyPercent * totalAngle;
   const mediumAngle = mediumPercent * totalAngle;
   const hardAngle = hardPercent * totalAngle;
+  const unknownAngle = unknownPercent * totalAngle;
 
   let currentAngle = startAngle;
 
@@ -77,6 +79,8 @@ export function renderProgressRing(container: HTMLElement, data: SolvedStats): v
   const mediumPath = describeArc(centerX, centerY, radius, currentAngle - overlap, currentAngle + mediumAngle);
   currentAngle += mediumAngle;
   const hardPath = describeArc(centerX, centerY, radius, currentAngle - overlap, currentAngle + hardAngle);
+  currentAngle += hardAngle;
+  const unknownPath = describeArc(centerX, centerY, radius, currentAngle - overlap, currentAngle + unknownAngle);
 
   // The SVG will fill its container, and preserveAspectRatio will scale it without distortion.
   // Clear the container and define SVG namespace
@@ -122,6 +126,7 @@ export function renderProgressRing(container: HTMLElement, data: SolvedStats): v
   
   // Append paths
   svg.appendChild(createPath(describeArc(centerX, centerY, radius, startAngle, startAngle + totalAngle), colors.background.secondarySection, false));
+  svg.appendChild(createPath(unknownPath, colors.text.subtle, true));
   svg.appendChild(createPath(hardPath, colors.problems.hard, true));
   svg.appendChild(createPath(mediumPath, colors.problems.medium, true));
   svg.appendChild(createPath(easyPath, colors.problems.easy, true));
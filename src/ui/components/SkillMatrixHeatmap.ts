@@ -2,6 +2,7 @@ import Chart from 'chart.js/auto';
 import 'chartjs-adapter-date-fns';
 import type { SkillMatrixData, SkillMatrixOptions, TimeSeriesPoint, TimeRange } from '../../types';
 import { colors } from '../theme/colors';
+import { formatTopicName } from '../format';
 
 export interface SkillMatrixHeatmapInstance {
   update: (data: SkillMatrixData, options: SkillMatrixOptions) => void;
@@ -47,6 +48,7 @@ function getOptimalChartView(
     case 'Last 365 Days':
       return spanInDays < 90 ? 'Daily' : 'Monthly';
     case 'All Time':
+    case 'Custom':
       if (spanInDays > 365 * 4) return 'Yearly';
       if (spanInDays > 90) return 'Monthly';
       return 'Daily';
@@ -118,13 +120,15 @@ function aggregateTimeSeriesData(
  * @param data The data for the skill matrix.
  * @param options The configuration options for the component.
  * @param existingInstance An optional existing instance to update.
+ * @param config Optional callbacks; only read when the component is first created.
  * @returns An instance of the skill matrix component with update and destroy methods.
  */
 export function renderOrUpdateSkillMatrixHeatmap(
   container: HTMLElement,
   data: SkillMatrixData,
   options: SkillMatrixOptions,
-  existingInstance?: SkillMatrixHeatmapInstance
+  existingInstance?: SkillMatrixHeatmapInstance,
+  config: { onExpandedRowsChange?: (topics: string[]) => void } = {}
 ): SkillMatrixHeatmapInstance {
 
   if (existingInstance) {
@@ -243,6 +247,17 @@ export function renderOrUpdateSkillMatrixHeatmap(
     mainWrapper.appendChild(tableContainer);
     container.appendChild(mainWrapper);
     addEventListeners();
+    restoreExpandedRows();
+  }
+
+  /** Re-opens the rows listed in `options.expandedTopics` that are still in the table. */
+  function restoreExpandedRows() {
+    (options.expandedTopics || []).forEach(topic => {
+      const button = container.querySelector<HTMLButtonElement>(`.expand-btn[data-topic="${topic}"]`);
+      if (button && !expandedRows.has(topic)) {
+        toggleRow(topic, button);
+      }
+    });
   }
 
   /** Adds event listeners to the expand/collapse buttons. */
@@ -317,6 +332,7 @@ export function renderOrUpdateSkillMatrixHeatmap(
       button.querySelector('span')!.textContent = '−';
       requestAnimationFrame(() => renderChart(topic));
     }
+    config.onExpandedRowsChange?.(Array.from(expandedRows));
   }
 
   /** Generates the HTML for an expanded chart row. */
@@ -585,7 +601,10 @@ row.querySelectorAll('.difficulty-toggle').forEach(el => {
     }
 
     const timeRangeStartDate = new Date(data.timeRangeStart);
-    let dataForChart = metricData.filter(point => new Date(point.date) >= timeRangeStartDate);
+    const timeRangeEndDate = data.timeRangeEnd ? new Date(data.timeRangeEnd) : null;
+    let dataForChart = metricData.filter(point =>
+      new Date(point.date) >= timeRangeStartDate && (!timeRangeEndDate || new Date(point.date) <= timeRangeEndDate)
+    );
 
     if (options.timeRange !== 'All Time') {
       const lastPointBeforeRange = metricData.slice().reverse().find(point => new Date(point.date) < timeRangeStartDate);
@@ -638,6 +657,7 @@ row.querySelectorAll('.difficulty-toggle').forEach(el => {
           x: {
             type: 'time',
             min: xScaleMin,
+            max: data.timeRangeEnd,
             time: {
               unit: timeScaleConfig[localOpts.view].unit,
               tooltipFormat: timeScaleConfig[localOpts.view].tooltipFormat
@@ -826,14 +846,6 @@ row.querySelectorAll('.difficulty-toggle').forEach(el => {
     return `${value.toFixed(0)}%`;
   }
 
-  /** Formats a topic slug into a display-friendly name. */
-  function formatTopicName(slug: string): string {
-    return slug
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  }
-
   const instance: SkillMatrixHeatmapInstance = {
     update: (newData, newOptions) => {
       Object.assign(data, newData);
@@ -0,0 +1,9 @@
+/**
+ * Formats a topic slug into a display-friendly name, e.g. 'binary-search' -> 'Binary Search'.
+ */
+export function formatTopicName(slug: string): string {
+    return slug
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+}
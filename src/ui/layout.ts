@@ -1,11 +1,42 @@
 import { colors } from '../ui/theme/colors';
-import type { ProcessedData, Difficulty, TimeRange, ClockView, CumulativeView } from '../types';
+import type {
+    ProcessedData,
+    Difficulty,
+    TimeRange,
+    ClockView,
+    CumulativeView,
+    DateWindow,
+    MetadataStatus,
+    ResyncOffer,
+    ImportSummary,
+    DashboardViewState,
+    StoredDateWindow,
+    ViewStateStore,
+    SettingsStore,
+    AnalyticsSettings,
+    CalendarMetric,
+    StreakPeriod,
+    ProblemTableOptions,
+    UnsolvedProblem,
+    Goal,
+    GoalProgress,
+    GoalHistoryEntry,
+    GoalStore,
+    ForecastHorizon,
+    CumulativeForecast,
+} from '../types';
 import { getCodingClockStats } from '../analysis/stats/getCodingClockStats';
 import { getCumulativeStats } from '../analysis/stats/getCumulativeStats';
 import { getSubmissionSignatureStats } from '../analysis/stats/getSubmissionSignatureStats';
 import { getLanguageStats } from '../analysis/stats/getLanguageStats';
 import { getLegacyStats } from '../analysis/stats/getLegacyStats';
 import { getSkillMatrixStats } from '../analysis/stats/getSkillMatrixStats';
+import { getCalendarHeatmapStats } from '../analysis/stats/getCalendarHeatmapStats';
+import { getProblemDetailStats } from '../analysis/stats/getProblemDetailStats';
+import { getReviewQueueStats } from '../analysis/stats/getReviewQueueStats';
+import { getUnsolvedProblemStats } from '../analysis/stats/getUnsolvedProblemStats';
+import { getGoalStats } from '../analysis/stats/getGoalStats';
+import { getProblemListStats, sortProblemSummaries, searchProblemSummaries } from '../analysis/stats/getProblemListStats';
 import { renderOrUpdateStackedBarChart, CodingClockChartInstance } from './components/StackedBarChart';
 import { renderOrUpdateCumulativeLineChart, CumulativeLineChartInstance } from './components/CumulativeLineChart';
 import { renderOrUpdateDoughnutChart, DoughnutChartInstance } from './components/DoughnutChart';
@@ -13,9 +44,18 @@ import { renderOrUpdateHorizontalBarChart, HorizontalBarChartInstance } from './
 import { renderOrUpdateMiniBarChart, MiniBarChartInstance } from './components/MiniBarChart';
 import { renderOrUpdateSkillMatrixHeatmap, SkillMatrixHeatmapInstance } from './components/SkillMatrixHeatmap';
 import { renderOrUpdateInteractiveChart, InteractiveChartInstance } from './components/InteractiveChart';
+import { renderOrUpdateCalendarHeatmap, CalendarHeatmapInstance } from './components/CalendarHeatmap';
+import { renderOrUpdateProblemDetailPanel, ProblemDetailPanelInstance } from './components/ProblemDetailPanel';
+import { renderOrUpdateProblemTable, ProblemTableInstance } from './components/ProblemTable';
 import { initializeBentoGenerator } from './bento/bento';
 import { createBentoModalHTML } from './bento/bentoModal';
 import { styles } from './theme/styles';
+import { getExportRows, toExportJSON, toExportCSV } from '../analysis/export';
+import { getStatusLabel } from '../analysis/stats/getSubmissionSignatureStats';
+import { encodeViewStateHash, decodeViewStateHash, isViewStateHash } from './viewStateHash';
+import { zonedNow, applyTimeZone, toDayKey } from '../analysis/timezone';
+import { setCalendarSettings, toActivityWindow, getActivityDay } from '../analysis/calendar';
+import { formatTopicName } from './format';
 
 // --- Global Augmentation ---
 declare global {
@@ -24,8 +64,44 @@ declare global {
     }
 }
 
+/** A multi-select filter, and how its picked option keys map onto `currentFilters`. */
+interface MultiSelectFilter {
+    /** The id prefix of its dropdown. */
+    prefix: string;
+    label: string;
+    options: { key: string; label: string }[];
+    getSelected: () => string[];
+    setSelected: (keys: string[]) => void;
+}
+
+/** Data-health information and data actions shown around the stats. */
+export interface PageLayoutOptions {
+    /** Freshness of the cached problem metadata, shown at the bottom of the pane. */
+    metadataStatus?: MetadataStatus;
+    /** An integrity problem with the cached submissions, shown at the top of the pane. */
+    resyncOffer?: ResyncOffer;
+    /** Merges the contents of a JSON export into the cache. */
+    importHistory?: (text: string) => Promise<ImportSummary>;
+    /** The user's saved filters and views, restored when the charts first render. */
+    viewState?: ViewStateStore;
+    /** The analytics settings, editable at the bottom of the pane. */
+    settings?: SettingsStore;
+    /** The user's goals, shown and edited next to the records. */
+    goals?: GoalStore;
+}
+
 // --- Constants ---
 const ACTIVE_INNER_DIV_CLASSES = 'text-label-1 dark:text-dark-label-1 bg-fill-3 dark:bg-dark-fill-3'.split(' ');
+// Changes are saved once the user pauses, so clicking through options writes only once.
+const VIEW_STATE_SAVE_DELAY_MS = 500;
+// Clicking a calendar day shows this many days either side of it in the history chart.
+const CALENDAR_BRUSH_PADDING_DAYS = 14;
+// The choices for how long an unsolved problem goes untouched before it counts as abandoned.
+const ABANDONED_AFTER_DAYS_OPTIONS = [7, 30, 90];
+// How many past goal periods the history log shows.
+const GOAL_HISTORY_LIMIT = 10;
+// How far ahead the progress tracker can project, with the toggle's label for each.
+const FORECAST_HORIZON_OPTIONS: [ForecastHorizon, string][] = [[30, '30d'], [90, '90d'], [365, '1y']];
 
 // --- State Management ---
 let codingClockChart: CodingClockChartInstance | undefined;
@@ -34,36 +110,72 @@ let signatureChart: DoughnutChartInstance | undefined;
 let languageChart: HorizontalBarChartInstance | undefined;
 let interactiveChart: InteractiveChartInstance | undefined;
 let skillMatrixHeatmap: SkillMatrixHeatmapInstance | undefined;
+let calendarHeatmap: CalendarHeatmapInstance | undefined;
+let problemDetailPanel: ProblemDetailPanelInstance | undefined;
+let problemTable: ProblemTableInstance | undefined;
 
 let miniBarCharts: Map < string, MiniBarChartInstance > = new Map();
 let legacyStats: any = null;
 
-let currentFilters = {
+const getDefaultFilters = () => ({
     timeRange: 'All Time' as TimeRange,
+    dateWindow: undefined as DateWindow | undefined,
     difficulty: 'All' as Difficulty,
+    languages: [] as string[],
+    topics: [] as string[],
+    statuses: [] as number[],
     clockView: 'DayOfWeek' as ClockView,
     cumulativeView: 'Daily' as CumulativeView,
-};
+});
 
-let interactiveChartFilters = {
+const getDefaultInteractiveChartFilters = () => ({
     primaryView: 'Problems Solved' as 'Submissions' | 'Problems Solved',
     secondaryView: 'Difficulty' as 'Difficulty' | 'Language' | 'Status',
     timeRange: 'All Time' as TimeRange,
     difficulty: 'All' as Difficulty,
-};
+    brushWindow: undefined as DateWindow | undefined,
+});
 
-let skillMatrixOptions = {
-    timeRange: 'All Time' as 'Last 30 Days' | 'Last 90 Days' | 'Last 365 Days' | 'All Time',
+const getDefaultSkillMatrixOptions = () => ({
+    timeRange: 'All Time' as TimeRange,
+    dateWindow: undefined as DateWindow | undefined,
     chartView: 'Monthly' as 'Daily' | 'Monthly' | 'Yearly',
     showDifficultySplit: false,
-    selectedMetric: 'problemsSolved' as 'problemsSolved' | 'avgTries' | 'firstAceRate'
-};
+    selectedMetric: 'problemsSolved' as 'problemsSolved' | 'avgTries' | 'firstAceRate',
+    expandedTopics: [] as string[],
+});
+
+const getDefaultCalendarOptions = () => ({
+    // Undefined shows the most recent year with submissions.
+    year: undefined as number | undefined,
+    metric: 'Submissions' as CalendarMetric,
+});
+
+let currentFilters = getDefaultFilters();
+let interactiveChartFilters = getDefaultInteractiveChartFilters();
+let skillMatrixOptions = getDefaultSkillMatrixOptions();
+let calendarOptions = getDefaultCalendarOptions();
+let problemTableOptions: ProblemTableOptions = { query: '', sortKey: 'lastAttemptDate', sortDirection: 'desc', page: 0 };
+let abandonedAfterDays = 30;
+// How far ahead the progress tracker projects; null hides the forecast.
+let cumulativeForecastDays: ForecastHorizon | null = null;
+
+let viewStateStore: ViewStateStore | undefined;
+let settingsStore: SettingsStore | undefined;
+let goalStore: GoalStore | undefined;
+// The URL fragment the page was opened with, if it links to a dashboard view.
+let linkedViewStateHash: string | null = null;
+let viewStateSaveTimeout: number | undefined;
 
 
 /**
  * Main function to inject and manage the tabbed stats UI.
  */
-export function renderPageLayout(processedData: ProcessedData, username: string) {
+export function renderPageLayout(processedData: ProcessedData, username: string, options: PageLayoutOptions = {}) {
+    viewStateStore = options.viewState;
+    settingsStore = options.settings;
+    goalStore = options.goals;
+    linkedViewStateHash = isViewStateHash(window.location.hash) ? window.location.hash : null;
     const contentContainer = document.querySelector('.space-y-\\[18px\\]') ||
         document.querySelector('[class*="space-y-["]');
     if (!contentContainer) {
@@ -114,7 +226,7 @@ export function renderPageLayout(processedData: ProcessedData, username: string)
         wrapper.appendChild(innerWrapper);
         statsPane.appendChild(wrapper);
     } else {
-        const grid = createStatsPaneWithGrid(username);
+        const grid = createStatsPaneWithGrid(username, options, countProblemsWithoutMetadata(processedData));
         while (grid.firstChild) {
             statsPane.appendChild(grid.firstChild);
         }
@@ -169,30 +281,34 @@ export function renderPageLayout(processedData: ProcessedData, username: string)
  * Renders or updates all charts at once.
  */
 function renderAllCharts(processedData: ProcessedData, username: string) {
-    currentFilters.cumulativeView = getSmartCumulativeView(currentFilters.timeRange, processedData);
+    if (viewStateStore?.saved) {
+        applyViewState(viewStateStore.saved);
+    } else {
+        currentFilters.cumulativeView = getSmartCumulativeView(currentFilters.timeRange, processedData, currentFilters.dateWindow);
+    }
+    // A dashboard link wins over the saved state.
+    const linkedState = linkedViewStateHash && decodeViewStateHash(linkedViewStateHash, getViewState());
+    if (linkedState) {
+        applyViewState(linkedState);
+    }
     renderInteractiveChart(processedData);
     renderLegacySection(processedData);
     renderCodingClock(processedData);
     renderCumulativeChart(processedData);
     renderSubmissionSignature(processedData);
     renderLanguageChart(processedData);
+    renderCalendarHeatmap(processedData);
     renderSkillMatrix(processedData);
+    renderReviewQueue(processedData);
+    renderUnsolvedProblems(processedData);
+    renderProblemTable(processedData);
     setupFilterListeners(processedData);
+    setupProblemDetailListeners(processedData);
+    setupExportListeners(processedData, username);
+    setupSettingsListeners(processedData);
     initializeBentoGenerator(processedData, username);
 
-    setTimeout(() => {
-        legacyStats.records.forEach((record: any) => {
-            if (record.subStats) {
-                const canvasId = `mini-chart-${record.name.replace(/\s+/g, '-').toLowerCase()}`;
-                const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
-                if (canvas) {
-                    const existingChart = miniBarCharts.get(canvasId);
-                    const newChart = renderOrUpdateMiniBarChart(canvas, record.subStats, existingChart);
-                    miniBarCharts.set(canvasId, newChart);
-                }
-            }
-        });
-    }, 100);
+    setTimeout(renderMiniCharts, 100);
 
     setTimeout(() => {
         if (codingClockChart) codingClockChart.resize();
@@ -202,6 +318,38 @@ function renderAllCharts(processedData: ProcessedData, username: string) {
     }, 100);
 }
 
+/**
+ * Renders the small bar charts next to the legacy records.
+ */
+function renderMiniCharts() {
+    legacyStats.records.forEach((record: any) => {
+        if (record.subStats) {
+            const canvasId = `mini-chart-${record.name.replace(/\s+/g, '-').toLowerCase()}`;
+            const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+            if (canvas) {
+                const existingChart = miniBarCharts.get(canvasId);
+                const newChart = renderOrUpdateMiniBarChart(canvas, record.subStats, existingChart);
+                miniBarCharts.set(canvasId, newChart);
+            }
+        }
+    });
+}
+
+/**
+ * Re-renders every chart from the current data, e.g. after a setting changes how
+ * submissions are bucketed.
+ */
+function rerenderAllCharts(processedData: ProcessedData) {
+    renderInteractiveChart(processedData);
+    renderLegacySection(processedData);
+    renderFilteredCharts(processedData);
+    renderSkillMatrix(processedData);
+    renderReviewQueue(processedData);
+    renderUnsolvedProblems(processedData);
+    renderProblemTable(processedData);
+    setTimeout(renderMiniCharts, 100);
+}
+
 /**
  * Renders only the charts that are affected by the main filters.
  */
@@ -210,6 +358,8 @@ function renderFilteredCharts(processedData: ProcessedData) {
     renderCumulativeChart(processedData);
     renderSubmissionSignature(processedData);
     renderLanguageChart(processedData);
+    renderCalendarHeatmap(processedData);
+    renderProblemTable(processedData);
 }
 
 /**
@@ -223,7 +373,14 @@ function renderInteractiveChart(processedData: ProcessedData) {
         container,
         processedData,
         interactiveChartFilters,
-        interactiveChart
+        interactiveChart, {
+            onFiltersChange: filters => {
+                interactiveChartFilters.primaryView = filters.primaryView;
+                interactiveChartFilters.secondaryView = filters.secondaryView;
+                interactiveChartFilters.brushWindow = filters.brushWindow;
+                scheduleViewStateSave();
+            },
+        }
     );
 }
 
@@ -289,6 +446,7 @@ function renderLegacySection(processedData: ProcessedData) {
             } else {
                 link.href = `https://leetcode.com/problems/${milestone.problemSlug}/`;
                 link.textContent = milestone.problemTitle;
+                linkToProblemDetail(link, processedData, milestone.problemSlug);
             }
             textContainer.appendChild(link);
         }
@@ -340,6 +498,7 @@ function renderLegacySection(processedData: ProcessedData) {
             problemEl.className = styles.trophyProblem;
             (problemEl as HTMLAnchorElement).target = '_blank';
             (problemEl as HTMLAnchorElement).rel = 'noopener noreferrer';
+            linkToProblemDetail(problemEl as HTMLAnchorElement, processedData, trophy.problemSlug);
         } else {
             problemEl.className = `${styles.trophyProblem} trophy-hidden cursor-default`;
         }
@@ -378,6 +537,10 @@ function renderLegacySection(processedData: ProcessedData) {
         const labelSpan = document.createElement('span');
         labelSpan.className = styles.recordLabel;
         labelSpan.textContent = record.name;
+        if (record.isAtRisk) {
+            labelSpan.classList.add('flex', 'items-center', 'gap-2');
+            labelSpan.appendChild(createStreakAtRiskBadge());
+        }
         item.appendChild(labelSpan);
         const valueContainer = document.createElement('div');
         valueContainer.className = 'flex flex-col items-end';
@@ -415,10 +578,478 @@ function renderLegacySection(processedData: ProcessedData) {
     });
     recordsContainer.appendChild(recordsHeader);
     recordsContainer.appendChild(recordsList);
+    if (legacyStats.streaks.history.length > 0) {
+        recordsContainer.appendChild(createStreakHistory(legacyStats.streaks.history));
+    }
     rightHalfContainer.appendChild(recordsContainer);
 
+    // Goals
+    if (goalStore) {
+        const goalsContainer = document.createElement('div');
+        goalsContainer.className = 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4';
+        const goalsHeader = document.createElement('div');
+        goalsHeader.className = styles.subSectionHeader;
+        goalsHeader.textContent = 'Goals';
+        const goalsContent = document.createElement('div');
+        goalsContent.id = 'goals-container';
+        goalsContent.className = 'mt-4';
+        goalsContainer.append(goalsHeader, goalsContent);
+        rightHalfContainer.appendChild(goalsContainer);
+    }
+
     mainFlexContainer.appendChild(rightHalfContainer);
     legacyContainer.appendChild(mainFlexContainer);
+    renderGoals(processedData);
+}
+
+/**
+ * Renders each goal's progress, the form for adding a goal, and the log of past hits and
+ * misses. Goals are judged against the full history, ignoring the filters.
+ */
+function renderGoals(processedData: ProcessedData) {
+    const container = document.getElementById('goals-container');
+    if (!container || !goalStore) return;
+    const store = goalStore;
+
+    const saveGoals = (goals: Goal[]) => {
+        store.saved = goals;
+        renderGoals(processedData);
+        // A lost save only means the next visit shows the previous goals.
+        store.save(goals).catch(() => {});
+    };
+
+    const { goals, history } = getGoalStats(processedData, store.saved);
+    container.replaceChildren();
+
+    const list = document.createElement('div');
+    list.className = 'space-y-3';
+    if (goals.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = `${styles.recordContext} p-2`;
+        empty.textContent = 'No goals yet. Add one below.';
+        list.appendChild(empty);
+    }
+    goals.forEach(progress => {
+        list.appendChild(createGoalRow(progress, () => saveGoals(store.saved.filter(goal => goal.id !== progress.goal.id))));
+    });
+
+    container.append(list, createGoalForm(processedData, goal => saveGoals([...store.saved, goal])));
+    if (history.length > 0) {
+        container.appendChild(createGoalHistory(history.slice(0, GOAL_HISTORY_LIMIT)));
+    }
+}
+
+/**
+ * Creates a goal's progress bar, with its projection and a button to delete it.
+ */
+function createGoalRow(progress: GoalProgress, onDelete: () => void): HTMLElement {
+    const { goal } = progress;
+    const row = document.createElement('div');
+    row.className = 'p-2 rounded-md';
+
+    const top = document.createElement('div');
+    top.className = 'flex justify-between items-center gap-4';
+    const label = document.createElement('span');
+    label.className = styles.recordLabel;
+    label.textContent = progress.label;
+    const right = document.createElement('div');
+    right.className = 'flex items-center gap-2';
+    const count = document.createElement('span');
+    count.className = styles.recordValue;
+    count.textContent = `${progress.current} / ${goal.target}`;
+    const deleteBtn = document.createElement('button');
+    deleteBtn.type = 'button';
+    deleteBtn.className = 'text-label-3 dark:text-dark-label-3 hover:text-label-1 dark:hover:text-dark-label-1 leading-none';
+    deleteBtn.setAttribute('aria-label', `Delete goal: ${progress.label}`);
+    deleteBtn.textContent = '×';
+    deleteBtn.addEventListener('click', onDelete);
+    right.append(count, deleteBtn);
+    top.append(label, right);
+
+    const track = document.createElement('div');
+    track.className = 'mt-2 h-2 w-full rounded-full bg-fill-3 dark:bg-dark-fill-3 overflow-hidden';
+    const bar = document.createElement('div');
+    bar.className = 'h-full rounded-full';
+    bar.style.width = `${Math.min(progress.current / goal.target, 1) * 100}%`;
+    bar.style.backgroundColor = progress.isComplete || progress.isOnTrack !== false ?
+        colors.status.accepted :
+        colors.status.timeLimitExceeded;
+    track.appendChild(bar);
+
+    const context = document.createElement('span');
+    context.className = `${styles.recordContext} block mt-1`;
+    const period = goal.cadence === 'weekly' ? 'this week' : goal.cadence === 'monthly' ? 'this month' : null;
+    if (progress.isComplete) {
+        context.textContent = period ? `Done ${period}` : 'Reached';
+    } else if (!progress.projectedDate) {
+        context.textContent = 'No recent progress to project from';
+    } else {
+        const projection = `At your recent pace, done by ${progress.projectedDate.toLocaleDateString('en-GB')}`;
+        context.textContent = progress.isOnTrack === null ?
+            projection :
+            `${projection} · ${progress.isOnTrack ? 'on track' : `behind (${period ? `${period} ends` : 'deadline'} ${progress.endDate?.toLocaleDateString('en-GB')})`}`;
+    }
+
+    row.append(top, track, context);
+    return row;
+}
+
+/**
+ * Creates the form for adding a goal. The topic list comes from the problems attempted.
+ */
+function createGoalForm(processedData: ProcessedData, onAdd: (goal: Goal) => void): HTMLElement {
+    const form = document.createElement('form');
+    form.className = `${styles.recordContext} flex flex-wrap items-center gap-2 mt-4 p-2`;
+    const inputClassName = 'rounded px-2 py-1 bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2';
+
+    const createSelect = (ariaLabel: string, options: [string, string][]) => {
+        const select = document.createElement('select');
+        select.className = inputClassName;
+        select.setAttribute('aria-label', ariaLabel);
+        options.forEach(([value, text]) => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = text;
+            select.appendChild(option);
+        });
+        return select;
+    };
+
+    const targetInput = document.createElement('input');
+    targetInput.type = 'number';
+    targetInput.min = '1';
+    targetInput.value = '5';
+    targetInput.required = true;
+    targetInput.className = `${inputClassName} w-16`;
+    targetInput.setAttribute('aria-label', 'Target');
+
+    const difficultySelect = createSelect('Difficulty', [['', 'Any'], ['Easy', 'Easy'], ['Medium', 'Medium'], ['Hard', 'Hard']]);
+    const topics = new Set<string>();
+    for (const subs of processedData.problemMap.values()) {
+        subs[0]?.metadata?.topics.forEach(topic => topics.add(topic));
+    }
+    const topicSelect = createSelect('Topic', [
+        ['', 'Any topic'],
+        ...Array.from(topics).sort().map((topic): [string, string] => [topic, formatTopicName(topic)]),
+    ]);
+    const cadenceSelect = createSelect('Cadence', [['weekly', 'per week'], ['monthly', 'per month'], ['total', 'in total']]);
+
+    const deadlineInput = document.createElement('input');
+    deadlineInput.type = 'date';
+    deadlineInput.className = inputClassName;
+    deadlineInput.setAttribute('aria-label', 'Deadline (optional)');
+    deadlineInput.min = toDayKey(zonedNow());
+    deadlineInput.style.display = 'none';
+    cadenceSelect.addEventListener('change', () => {
+        deadlineInput.style.display = cadenceSelect.value === 'total' ? '' : 'none';
+    });
+
+    const addBtn = document.createElement('button');
+    addBtn.type = 'submit';
+    addBtn.className = 'rounded px-3 py-1 bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2';
+    addBtn.textContent = 'Add Goal';
+
+    form.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const target = parseInt(targetInput.value, 10);
+        if (!Number.isInteger(target) || target < 1) return;
+        const cadence = cadenceSelect.value as Goal['cadence'];
+        onAdd({
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            cadence,
+            target,
+            difficulty: (difficultySelect.value || undefined) as Goal['difficulty'],
+            topic: topicSelect.value || undefined,
+            deadline: cadence === 'total' && deadlineInput.value ? deadlineInput.value : undefined,
+            createdAt: Date.now(),
+        });
+    });
+
+    form.append(
+        document.createTextNode('Solve'),
+        targetInput,
+        difficultySelect,
+        topicSelect,
+        document.createTextNode('problems'),
+        cadenceSelect,
+        deadlineInput,
+        addBtn
+    );
+    return form;
+}
+
+/**
+ * Lists past goal periods and deadlines, newest first, marking each as hit or missed.
+ */
+function createGoalHistory(history: GoalHistoryEntry[]): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'mt-4 p-2';
+    const header = document.createElement('div');
+    header.className = styles.recordLabel;
+    header.textContent = 'Goal History';
+    const list = document.createElement('div');
+    list.className = 'mt-2 space-y-1';
+    history.forEach(entry => {
+        const item = document.createElement('div');
+        item.className = 'flex justify-between items-center gap-4';
+        const description = document.createElement('span');
+        description.className = styles.recordContext;
+        description.textContent = `${entry.periodLabel} · ${entry.label}`;
+        const result = document.createElement('span');
+        result.className = `${styles.recordContext} whitespace-nowrap`;
+        result.style.color = entry.achieved ? colors.status.accepted : colors.status.wrongAnswer;
+        result.textContent = `${entry.achieved ? 'Hit' : 'Missed'} (${entry.count}/${entry.target})`;
+        item.append(description, result);
+        list.appendChild(item);
+    });
+    container.append(header, list);
+    return container;
+}
+
+/**
+ * Makes a problem link open the problem's detail panel. Modified clicks (e.g. Ctrl+click)
+ * still open LeetCode, so the link keeps working as a link.
+ */
+function linkToProblemDetail(link: HTMLAnchorElement, processedData: ProcessedData, slug: string) {
+    link.addEventListener('click', (e) => {
+        if (e.ctrlKey || e.metaKey || e.shiftKey || e.button !== 0) return;
+        e.preventDefault();
+        openProblemDetail(processedData, slug);
+    });
+}
+
+/**
+ * Shows the detail panel for a problem.
+ */
+function openProblemDetail(processedData: ProcessedData, slug: string) {
+    const modal = document.getElementById('problem-detail-modal');
+    const container = document.getElementById('problem-detail-container');
+    const detail = getProblemDetailStats(processedData, slug);
+    if (!modal || !container || !detail) return;
+
+    problemDetailPanel = renderOrUpdateProblemDetailPanel(container, detail, problemDetailPanel, {
+        onClose: closeProblemDetail,
+    });
+    modal.style.display = 'flex';
+    document.body.style.overflow = 'hidden';
+}
+
+/**
+ * Hides the problem detail panel.
+ */
+function closeProblemDetail() {
+    const modal = document.getElementById('problem-detail-modal');
+    if (!modal || modal.style.display !== 'flex') return;
+    modal.style.display = 'none';
+    document.body.style.overflow = '';
+    problemDetailPanel?.destroy();
+    problemDetailPanel = undefined;
+}
+
+/**
+ * Wires the problem search box, the abandoned-after toggle, and the detail panel's
+ * backdrop and Escape key.
+ */
+function setupProblemDetailListeners(processedData: ProcessedData) {
+    const modal = document.getElementById('problem-detail-modal');
+    modal?.addEventListener('click', (e) => {
+        if (e.target === modal) closeProblemDetail();
+    });
+    document.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') closeProblemDetail();
+    });
+
+    ABANDONED_AFTER_DAYS_OPTIONS.forEach(days => {
+        document.getElementById(`unsolved-${days}-days-btn`)?.addEventListener('click', () => {
+            if (abandonedAfterDays === days) return;
+            abandonedAfterDays = days;
+            ABANDONED_AFTER_DAYS_OPTIONS.forEach(option => {
+                document.getElementById(`unsolved-${option}-days-btn`)?.setAttribute('data-state', option === days ? 'active' : 'inactive');
+            });
+            renderUnsolvedProblems(processedData);
+        });
+    });
+
+    const searchInput = document.getElementById('problem-search-input') as HTMLInputElement | null;
+    searchInput?.addEventListener('input', () => {
+        problemTableOptions.query = searchInput.value;
+        problemTableOptions.page = 0;
+        renderProblemTable(processedData);
+    });
+}
+
+/**
+ * Renders today's review list. It ignores the filters: what needs revisiting does not
+ * depend on the charts being looked at.
+ */
+function renderReviewQueue(processedData: ProcessedData) {
+    const container = document.getElementById('review-queue-container');
+    const summary = document.getElementById('review-queue-summary');
+    if (!container) return;
+
+    const queue = getReviewQueueStats(processedData);
+    if (summary) {
+        const hiddenCount = queue.dueCount - queue.due.length;
+        summary.textContent = `${queue.dueCount} due today${hiddenCount > 0 ? ` (showing ${queue.due.length})` : ''} · ${queue.upcomingCount} more this week`;
+    }
+
+    container.replaceChildren();
+    if (queue.due.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = `${styles.recordContext} p-2`;
+        empty.textContent = 'Nothing to review today.';
+        container.appendChild(empty);
+        return;
+    }
+
+    queue.due.forEach(item => {
+        const row = document.createElement('div');
+        row.className = 'flex justify-between items-center gap-4 p-2 rounded-md hover:bg-fill-3 dark:hover:bg-dark-fill-3';
+
+        const left = document.createElement('div');
+        left.className = 'flex flex-col';
+        const title = document.createElement('button');
+        title.type = 'button';
+        title.className = `${styles.recordLabel} text-left hover:underline`;
+        title.textContent = item.title;
+        title.addEventListener('click', () => openProblemDetail(processedData, item.slug));
+        const meta = document.createElement('span');
+        meta.className = `${styles.recordContext} flex items-center gap-3`;
+        const difficulty = document.createElement('span');
+        difficulty.style.color = item.difficulty ? getMilestoneColor(item.difficulty.toLowerCase()) : colors.text.subtle;
+        difficulty.textContent = item.difficulty || '—';
+        const lastSolved = document.createElement('span');
+        lastSolved.textContent = `last solved ${item.lastSolvedDate.toLocaleDateString('en-GB')}`;
+        const solveCount = document.createElement('span');
+        solveCount.textContent = `solved ${item.solveCount} ${item.solveCount === 1 ? 'time' : 'times'}`;
+        meta.append(difficulty, lastSolved, solveCount);
+        left.append(title, meta);
+
+        const right = document.createElement('div');
+        right.className = 'flex items-center gap-3 whitespace-nowrap';
+        const due = document.createElement('span');
+        due.className = styles.recordContext;
+        due.textContent = item.daysOverdue === 0 ? 'due today' : `${item.daysOverdue} ${item.daysOverdue === 1 ? 'day' : 'days'} overdue`;
+        const solveLink = document.createElement('a');
+        solveLink.className = 'rounded px-3 py-1.5 bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2';
+        solveLink.href = `https://leetcode.com/problems/${item.slug}/`;
+        solveLink.target = '_blank';
+        solveLink.rel = 'noopener noreferrer';
+        solveLink.textContent = 'Solve';
+        right.append(due, solveLink);
+
+        row.append(left, right);
+        container.appendChild(row);
+    });
+}
+
+/**
+ * Renders the problems that were attempted but never accepted, in two groups: those
+ * still being worked on and those abandoned for longer than the chosen number of days.
+ */
+function renderUnsolvedProblems(processedData: ProcessedData) {
+    const container = document.getElementById('unsolved-problems-container');
+    if (!container) return;
+
+    const { inProgress, abandoned } = getUnsolvedProblemStats(processedData, abandonedAfterDays);
+    container.replaceChildren();
+    if (inProgress.length === 0 && abandoned.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = `${styles.recordContext} p-2`;
+        empty.textContent = 'Every attempted problem has been solved.';
+        container.appendChild(empty);
+        return;
+    }
+
+    const createGroup = (label: string, problems: UnsolvedProblem[]) => {
+        const group = document.createElement('div');
+        const header = document.createElement('div');
+        header.className = `${styles.recordLabel} p-2`;
+        header.textContent = `${label} (${problems.length})`;
+        group.appendChild(header);
+        problems.forEach(problem => group.appendChild(createUnsolvedProblemRow(processedData, problem)));
+        return group;
+    };
+
+    container.append(
+        createGroup('In Progress', inProgress),
+        createGroup(`Abandoned for more than ${abandonedAfterDays} days`, abandoned)
+    );
+}
+
+/**
+ * Creates a row of the unsolved problem list, with a link to reopen the problem.
+ */
+function createUnsolvedProblemRow(processedData: ProcessedData, problem: UnsolvedProblem): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'flex justify-between items-center gap-4 p-2 rounded-md hover:bg-fill-3 dark:hover:bg-dark-fill-3';
+
+    const left = document.createElement('div');
+    left.className = 'flex flex-col';
+    const title = document.createElement('button');
+    title.type = 'button';
+    title.className = `${styles.recordLabel} text-left hover:underline`;
+    title.textContent = problem.title;
+    title.addEventListener('click', () => openProblemDetail(processedData, problem.slug));
+    const meta = document.createElement('span');
+    meta.className = `${styles.recordContext} flex flex-wrap items-center gap-x-3`;
+    const difficulty = document.createElement('span');
+    difficulty.style.color = problem.difficulty ? getMilestoneColor(problem.difficulty.toLowerCase()) : colors.text.subtle;
+    difficulty.textContent = problem.difficulty || '—';
+    const attempts = document.createElement('span');
+    attempts.textContent = `${problem.attempts} ${problem.attempts === 1 ? 'attempt' : 'attempts'}`;
+    meta.append(difficulty, attempts);
+    if (problem.topics.length > 0) {
+        const topics = document.createElement('span');
+        topics.textContent = problem.topics.map(formatTopicName).join(', ');
+        meta.appendChild(topics);
+    }
+    left.append(title, meta);
+
+    const right = document.createElement('div');
+    right.className = 'flex items-center gap-3 whitespace-nowrap';
+    const lastAttempt = document.createElement('span');
+    lastAttempt.className = styles.recordContext;
+    lastAttempt.title = problem.lastAttemptDate.toLocaleDateString('en-GB');
+    lastAttempt.textContent = problem.daysSinceLastAttempt === 0 ?
+        'tried today' :
+        `tried ${problem.daysSinceLastAttempt} ${problem.daysSinceLastAttempt === 1 ? 'day' : 'days'} ago`;
+    const reopenLink = document.createElement('a');
+    reopenLink.className = 'rounded px-3 py-1.5 bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2';
+    reopenLink.href = `https://leetcode.com/problems/${problem.slug}/`;
+    reopenLink.target = '_blank';
+    reopenLink.rel = 'noopener noreferrer';
+    reopenLink.textContent = 'Reopen';
+    right.append(lastAttempt, reopenLink);
+
+    row.append(left, right);
+    return row;
+}
+
+/**
+ * Renders the table of problems that match the filters and the search box.
+ */
+function renderProblemTable(processedData: ProcessedData) {
+    const container = document.getElementById('problem-table-container');
+    if (!container) return;
+
+    const rows = sortProblemSummaries(
+        searchProblemSummaries(getProblemListStats(processedData, currentFilters), problemTableOptions.query),
+        problemTableOptions.sortKey,
+        problemTableOptions.sortDirection
+    );
+
+    problemTable = renderOrUpdateProblemTable(container, rows, problemTableOptions, problemTable, {
+        onSortChange: (sortKey, sortDirection) => {
+            Object.assign(problemTableOptions, { sortKey, sortDirection, page: 0 });
+            renderProblemTable(processedData);
+        },
+        onPageChange: page => {
+            problemTableOptions.page = page;
+            renderProblemTable(processedData);
+        },
+        onProblemClick: slug => openProblemDetail(processedData, slug),
+    });
 }
 
 /**
@@ -444,7 +1075,8 @@ function renderCumulativeChart(processedData: ProcessedData) {
     const canvas = document.getElementById('cumulative-chart') as HTMLCanvasElement;
     if (!canvas || !canvas.parentElement) return;
 
-    const chartData = getCumulativeStats(processedData, currentFilters);
+    const chartData = getCumulativeStats(processedData, { ...currentFilters, forecastDays: cumulativeForecastDays });
+    renderForecastNote(chartData?.forecast);
 
     if (chartData && chartData.labels.length > 0) {
         canvas.parentElement.style.display = 'block';
@@ -462,6 +1094,31 @@ function renderCumulativeChart(processedData: ProcessedData) {
     }
 }
 
+/**
+ * Describes the forecast under the progress tracker: when the recent pace reaches the
+ * next milestones.
+ */
+function renderForecastNote(forecast: CumulativeForecast | undefined) {
+    const note = document.getElementById('cumulative-forecast-note');
+    if (!note) return;
+
+    if (!cumulativeForecastDays) {
+        note.style.display = 'none';
+        return;
+    }
+    note.style.display = 'block';
+    if (!forecast) {
+        note.textContent = 'The forecast is shown when the chart runs up to today.';
+    } else if (forecast.milestones.length === 0) {
+        note.textContent = 'Not enough recent solves to project the next milestone.';
+    } else {
+        const parts = forecast.milestones.map(({ difficulty, milestone, date }) =>
+            `${milestone}${difficulty === 'All' ? '' : ` ${difficulty}`} solved on ${date.toLocaleDateString('en-GB')}`
+        );
+        note.textContent = `At this pace you reach ${parts.join(' · ')}`;
+    }
+}
+
 /**
  * Renders the submission breakdown chart (doughnut chart).
  */
@@ -505,7 +1162,7 @@ function renderSkillMatrix(processedData: ProcessedData) {
         processedData, { ...currentFilters,
             difficulty: 'All'
         },
-        skillMatrixOptions.timeRange
+        { timeRange: skillMatrixOptions.timeRange, dateWindow: skillMatrixOptions.dateWindow }
     );
 
     if (skillMatrixData) {
@@ -514,13 +1171,77 @@ function renderSkillMatrix(processedData: ProcessedData) {
             container,
             skillMatrixData,
             skillMatrixOptions,
-            skillMatrixHeatmap
+            skillMatrixHeatmap, {
+                onExpandedRowsChange: topics => {
+                    skillMatrixOptions.expandedTopics = topics;
+                    scheduleViewStateSave();
+                },
+            }
         );
     } else {
         container.style.display = 'none';
     }
 }
 
+/**
+ * Renders the calendar of daily activity for the selected year.
+ */
+function renderCalendarHeatmap(processedData: ProcessedData) {
+    const container = document.getElementById('calendar-heatmap-container') as HTMLElement;
+    if (!container) return;
+
+    const calendarData = getCalendarHeatmapStats(processedData, currentFilters, calendarOptions.year);
+    if (!calendarData) {
+        container.style.display = 'none';
+        return;
+    }
+
+    container.style.display = 'block';
+    syncCalendarYearOptions(calendarData.availableYears, calendarData.year);
+    calendarHeatmap = renderOrUpdateCalendarHeatmap(
+        container,
+        calendarData,
+        calendarOptions.metric,
+        calendarHeatmap, {
+            onDayClick: date => {
+                const firstDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() - CALENDAR_BRUSH_PADDING_DAYS);
+                const lastDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + CALENDAR_BRUSH_PADDING_DAYS);
+                const { start, end } = toActivityWindow(firstDay, lastDay);
+                interactiveChartFilters.brushWindow = [start, end];
+                renderInteractiveChart(processedData);
+                scheduleViewStateSave();
+                document.getElementById('interactive-chart-container')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            },
+        }
+    );
+}
+
+/**
+ * Fills the calendar's year dropdown with the years that have submissions.
+ * @param years The years to offer, newest first.
+ * @param selectedYear The year shown.
+ */
+function syncCalendarYearOptions(years: number[], selectedYear: number) {
+    const dropdownOptions = document.getElementById('calendar-year-dropdown-options');
+    if (!dropdownOptions) return;
+
+    const currentYears = Array.from(dropdownOptions.querySelectorAll('[data-value]'), opt => opt.getAttribute('data-value'));
+    if (currentYears.join(',') !== years.join(',')) {
+        dropdownOptions.replaceChildren(...years.map(year => {
+            const option = document.createElement('div');
+            option.className = 'relative flex h-8 cursor-pointer select-none items-center py-1.5 pl-2 pr-2 text-label-2 dark:text-dark-label-2 hover:text-label-1 dark:hover:text-dark-label-1 rounded';
+            option.dataset.value = String(year);
+            option.setAttribute('role', 'option');
+            const textDiv = document.createElement('div');
+            textDiv.className = 'flex-1 whitespace-nowrap';
+            textDiv.textContent = String(year);
+            option.appendChild(textDiv);
+            return option;
+        }));
+    }
+    syncDropdownSelection('calendar-year-dropdown-btn', 'calendar-year-dropdown-options', String(selectedYear));
+}
+
 /**
  * Sets up event listeners for all filter controls.
  */
@@ -529,7 +1250,8 @@ function setupFilterListeners(processedData: ProcessedData) {
         btnId: string,
         optionsId: string,
         filterKey: keyof typeof currentFilters | keyof typeof skillMatrixOptions,
-        isSkillMatrix: boolean = false
+        isSkillMatrix: boolean = false,
+        pickerPrefix?: string
     ) => {
         const dropdownBtn = document.getElementById(btnId) as HTMLButtonElement;
         const dropdownOptions = document.getElementById(optionsId) as HTMLDivElement;
@@ -551,64 +1273,109 @@ function setupFilterListeners(processedData: ProcessedData) {
             dropdownBtn.setAttribute('aria-expanded', String(isHidden));
         });
 
-        optionElements.forEach(option => {
-            option.addEventListener('click', () => {
-                const value = option.getAttribute('data-value') as any;
-                const btnTextSpan = dropdownBtn.querySelector('span:not(.check-icon-span)');
+        const selectOption = (value: any, dateWindow?: DateWindow) => {
+            syncDropdownSelection(btnId, optionsId, value, dateWindow);
 
-                if (btnTextSpan) {
-                    btnTextSpan.textContent = value;
-                }
-
-                if (isSkillMatrix) {
-                    (skillMatrixOptions as any)[filterKey] = value;
-                } else {
-                    (currentFilters as any)[filterKey] = value;
-                }
+            if (isSkillMatrix) {
+                (skillMatrixOptions as any)[filterKey] = value;
+                if (filterKey === 'timeRange') skillMatrixOptions.dateWindow = dateWindow;
+            } else {
+                (currentFilters as any)[filterKey] = value;
+                if (filterKey === 'timeRange') currentFilters.dateWindow = dateWindow;
+            }
 
-                optionElements.forEach(opt => {
-                    const isSelected = opt === option;
-                    opt.classList.toggle('bg-fill-3', isSelected);
-                    opt.classList.toggle('dark:bg-dark-fill-3', isSelected);
-                    opt.classList.toggle('font-medium', isSelected);
+            dropdownOptions.classList.add('hidden');
+            dropdownBtn.setAttribute('aria-expanded', 'false');
 
-                    const checkIcon = opt.querySelector('.check-icon-span');
-                    if (checkIcon) {
-                        checkIcon.classList.toggle('visible', isSelected);
-                        checkIcon.classList.toggle('invisible', !isSelected);
-                    }
-                });
+            if (isSkillMatrix) {
+                renderSkillMatrix(processedData);
+            } else {
+                if (filterKey === 'timeRange') {
+                    const smartView = getSmartCumulativeView(value, processedData, dateWindow);
+                    currentFilters.cumulativeView = smartView;
+                    updateCumulativeViewToggle(smartView);
+                }
+                renderFilteredCharts(processedData);
+            }
+            scheduleViewStateSave();
+        };
 
-                dropdownOptions.classList.add('hidden');
-                dropdownBtn.setAttribute('aria-expanded', 'false');
+        optionElements.forEach(option => {
+            option.addEventListener('click', () => {
+                const value = option.getAttribute('data-value') as any;
 
-                if (isSkillMatrix) {
-                    renderSkillMatrix(processedData);
-                } else {
-                    if (filterKey === 'timeRange') {
-                        const smartView = getSmartCumulativeView(value, processedData);
-                        currentFilters.cumulativeView = smartView;
-                        updateCumulativeViewToggle(smartView);
-                    }
-                    renderFilteredCharts(processedData);
+                // A custom range is only applied once both dates are picked.
+                if (value === 'Custom' && pickerPrefix) {
+                    dropdownOptions.classList.add('hidden');
+                    dropdownBtn.setAttribute('aria-expanded', 'false');
+                    const currentWindow = isSkillMatrix ? skillMatrixOptions.dateWindow : currentFilters.dateWindow;
+                    openDateRangePicker(pickerPrefix, currentWindow, dateWindow => selectOption(value, dateWindow));
+                    return;
                 }
+
+                selectOption(value);
             });
         });
     };
 
-    setupDropdown('time-range-dropdown-btn', 'time-range-dropdown-options', 'timeRange');
+    setupDropdown('time-range-dropdown-btn', 'time-range-dropdown-options', 'timeRange', false, 'time-range');
     setupDropdown('difficulty-dropdown-btn', 'difficulty-dropdown-options', 'difficulty');
-    setupDropdown('skill-matrix-time-filter-btn', 'skill-matrix-time-filter-options', 'timeRange', true);
+    setupDropdown('skill-matrix-time-filter-btn', 'skill-matrix-time-filter-options', 'timeRange', true, 'skill-matrix-time-filter');
+    setupCalendarControls(processedData);
+
+    const multiSelectFilters = getMultiSelectFilters(processedData);
+    const syncMultiSelects = multiSelectFilters.map(filter => setupMultiSelectDropdown(filter, () => applyMultiSelectChange()));
+
+    // Keeps the dropdowns and chips in step with `currentFilters` after any change.
+    const applyMultiSelectChange = () => {
+        syncMultiSelects.forEach(sync => sync());
+        renderFilterChips(multiSelectFilters, () => applyMultiSelectChange());
+        renderFilteredCharts(processedData);
+        renderSkillMatrix(processedData);
+        scheduleViewStateSave();
+    };
+    syncMultiSelects.forEach(sync => sync());
+    renderFilterChips(multiSelectFilters, () => applyMultiSelectChange());
+
+    document.getElementById('reset-view-btn')?.addEventListener('click', () => {
+        Object.assign(currentFilters, getDefaultFilters());
+        Object.assign(interactiveChartFilters, getDefaultInteractiveChartFilters());
+        Object.assign(skillMatrixOptions, getDefaultSkillMatrixOptions());
+        Object.assign(calendarOptions, getDefaultCalendarOptions());
+        currentFilters.cumulativeView = getSmartCumulativeView(currentFilters.timeRange, processedData, currentFilters.dateWindow);
+
+        syncMultiSelects.forEach(sync => sync());
+        renderFilterChips(multiSelectFilters, () => applyMultiSelectChange());
+        syncFilterControls();
+        renderInteractiveChart(processedData);
+        renderFilteredCharts(processedData);
+        renderSkillMatrix(processedData);
+        scheduleViewStateSave();
+    });
 
-    document.addEventListener('click', (event) => {
+    // Closes every dropdown and date range popover, except those the target is inside.
+    const closePopups = (target: Node | null) => {
         document.querySelectorAll('.stats-dropdown-options').forEach(el => {
             const btnId = el.id.replace('-options', '-btn');
             const btn = document.getElementById(btnId);
-            if (btn && !btn.contains(event.target as Node)) {
+            // Clicks inside a panel (e.g. on a checkbox) leave it open.
+            if (btn && !btn.contains(target) && !el.contains(target)) {
                 el.classList.add('hidden');
                 btn.setAttribute('aria-expanded', 'false');
             }
         });
+        document.querySelectorAll('.stats-date-range-picker').forEach(el => {
+            // The "Custom Range..." option that opens a popover shouldn't close it again.
+            const isOpener = target instanceof Element && target.closest('[data-value="Custom"]');
+            if (!el.contains(target) && !isOpener) {
+                el.classList.add('hidden');
+            }
+        });
+    };
+
+    document.addEventListener('click', (event) => closePopups(event.target as Node));
+    document.addEventListener('keydown', (event) => {
+        if (event.key === 'Escape') closePopups(null);
     });
 
     const dayViewBtn = document.getElementById('day-view-btn') as HTMLButtonElement;
@@ -620,6 +1387,7 @@ function setupFilterListeners(processedData: ProcessedData) {
             dayViewBtn.setAttribute('data-state', 'active');
             hourViewBtn.setAttribute('data-state', 'inactive');
             renderCodingClock(processedData);
+            scheduleViewStateSave();
         }
     });
 
@@ -629,6 +1397,7 @@ function setupFilterListeners(processedData: ProcessedData) {
             hourViewBtn.setAttribute('data-state', 'active');
             dayViewBtn.setAttribute('data-state', 'inactive');
             renderCodingClock(processedData);
+            scheduleViewStateSave();
         }
     });
 
@@ -641,6 +1410,7 @@ function setupFilterListeners(processedData: ProcessedData) {
             currentFilters.cumulativeView = view;
             updateCumulativeViewToggle(view);
             renderCumulativeChart(processedData);
+            scheduleViewStateSave();
         }
     };
 
@@ -648,13 +1418,186 @@ function setupFilterListeners(processedData: ProcessedData) {
     monthlyViewBtn.addEventListener('click', () => handleToggleClick('Monthly'));
     yearlyViewBtn.addEventListener('click', () => handleToggleClick('Yearly'));
 
+    const forecastButtons: [ForecastHorizon | null, string][] = [
+        [null, 'forecast-off-btn'],
+        ...FORECAST_HORIZON_OPTIONS.map(([days]): [ForecastHorizon, string] => [days, `forecast-${days}-days-btn`]),
+    ];
+    forecastButtons.forEach(([days, id]) => {
+        document.getElementById(id)?.addEventListener('click', () => {
+            if (cumulativeForecastDays === days) return;
+            cumulativeForecastDays = days;
+            forecastButtons.forEach(([option, optionId]) => {
+                document.getElementById(optionId)?.setAttribute('data-state', option === days ? 'active' : 'inactive');
+            });
+            renderCumulativeChart(processedData);
+        });
+    });
+
+    syncFilterControls();
+}
+
+/**
+ * Updates the dropdowns and toggles for single-value filters to match the current state,
+ * e.g. after saved filters are restored.
+ */
+function syncFilterControls() {
+    syncDropdownSelection('time-range-dropdown-btn', 'time-range-dropdown-options', currentFilters.timeRange, currentFilters.dateWindow);
+    syncDropdownSelection('difficulty-dropdown-btn', 'difficulty-dropdown-options', currentFilters.difficulty);
+    syncDropdownSelection('skill-matrix-time-filter-btn', 'skill-matrix-time-filter-options', skillMatrixOptions.timeRange, skillMatrixOptions.dateWindow);
+
+    const isDayView = currentFilters.clockView === 'DayOfWeek';
+    document.getElementById('day-view-btn')?.setAttribute('data-state', isDayView ? 'active' : 'inactive');
+    document.getElementById('hour-view-btn')?.setAttribute('data-state', isDayView ? 'inactive' : 'active');
+
     updateCumulativeViewToggle(currentFilters.cumulativeView);
+
+    const isSubmissionsMetric = calendarOptions.metric === 'Submissions';
+    document.getElementById('calendar-submissions-btn')?.setAttribute('data-state', isSubmissionsMetric ? 'active' : 'inactive');
+    document.getElementById('calendar-solved-btn')?.setAttribute('data-state', isSubmissionsMetric ? 'inactive' : 'active');
+}
+
+/**
+ * Wires the calendar's year dropdown and metric toggle. The year options are filled in
+ * by `renderCalendarHeatmap`, so clicks on them are handled on the options panel.
+ */
+function setupCalendarControls(processedData: ProcessedData) {
+    const dropdownBtn = document.getElementById('calendar-year-dropdown-btn');
+    const dropdownOptions = document.getElementById('calendar-year-dropdown-options');
+    if (dropdownBtn && dropdownOptions) {
+        dropdownBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            const isHidden = dropdownOptions.classList.contains('hidden');
+            document.querySelectorAll('.stats-dropdown-options').forEach(el => {
+                if (el !== dropdownOptions) {
+                    el.classList.add('hidden');
+                    document.getElementById(el.id.replace('-options', '-btn'))?.setAttribute('aria-expanded', 'false');
+                }
+            });
+            dropdownOptions.classList.toggle('hidden', !isHidden);
+            dropdownBtn.setAttribute('aria-expanded', String(isHidden));
+        });
+
+        dropdownOptions.addEventListener('click', (e) => {
+            const option = (e.target as HTMLElement).closest('[data-value]');
+            if (!option) return;
+            calendarOptions.year = Number(option.getAttribute('data-value'));
+            dropdownOptions.classList.add('hidden');
+            dropdownBtn.setAttribute('aria-expanded', 'false');
+            renderCalendarHeatmap(processedData);
+        });
+    }
+
+    const submissionsBtn = document.getElementById('calendar-submissions-btn');
+    const solvedBtn = document.getElementById('calendar-solved-btn');
+    const selectMetric = (metric: CalendarMetric) => {
+        if (calendarOptions.metric === metric) return;
+        calendarOptions.metric = metric;
+        submissionsBtn?.setAttribute('data-state', metric === 'Submissions' ? 'active' : 'inactive');
+        solvedBtn?.setAttribute('data-state', metric === 'Submissions' ? 'inactive' : 'active');
+        renderCalendarHeatmap(processedData);
+    };
+    submissionsBtn?.addEventListener('click', () => selectMetric('Submissions'));
+    solvedBtn?.addEventListener('click', () => selectMetric('Problems Solved'));
+}
+
+/**
+ * Shows a value as picked in a single-select dropdown: sets the button label and marks
+ * the matching option.
+ * @param dateWindow The custom window, shown in place of the value when set.
+ */
+function syncDropdownSelection(btnId: string, optionsId: string, value: string, dateWindow?: DateWindow) {
+    const btnTextSpan = document.getElementById(btnId)?.querySelector('span:not(.check-icon-span)');
+    if (btnTextSpan) {
+        btnTextSpan.textContent = dateWindow ? formatDateWindow(dateWindow) : value;
+    }
+
+    document.getElementById(optionsId)?.querySelectorAll('[data-value]').forEach(opt => {
+        const isSelected = opt.getAttribute('data-value') === value;
+        opt.classList.toggle('bg-fill-3', isSelected);
+        opt.classList.toggle('dark:bg-dark-fill-3', isSelected);
+        opt.classList.toggle('font-medium', isSelected);
+
+        const checkIcon = opt.querySelector('.check-icon-span');
+        if (checkIcon) {
+            checkIcon.classList.toggle('visible', isSelected);
+            checkIcon.classList.toggle('invisible', !isSelected);
+        }
+    });
+}
+
+const toStoredWindow = (dateWindow?: DateWindow): StoredDateWindow | undefined =>
+    dateWindow && [dateWindow[0].getTime(), dateWindow[1].getTime()];
+
+const fromStoredWindow = (dateWindow?: StoredDateWindow): DateWindow | undefined =>
+    dateWindow && [new Date(dateWindow[0]), new Date(dateWindow[1])];
+
+/**
+ * Captures the filters and chart views in a form that can be saved to storage.
+ */
+function getViewState(): DashboardViewState {
+    return {
+        filters: { ...currentFilters, dateWindow: toStoredWindow(currentFilters.dateWindow) },
+        interactiveChart: {
+            primaryView: interactiveChartFilters.primaryView,
+            secondaryView: interactiveChartFilters.secondaryView,
+            brushWindow: toStoredWindow(interactiveChartFilters.brushWindow),
+        },
+        skillMatrix: { ...skillMatrixOptions, dateWindow: toStoredWindow(skillMatrixOptions.dateWindow) },
+    };
+}
+
+/**
+ * Restores saved filters and chart views. Fields missing from an older save keep their defaults.
+ */
+function applyViewState(state: DashboardViewState) {
+    Object.assign(currentFilters, state.filters, { dateWindow: fromStoredWindow(state.filters?.dateWindow) });
+    Object.assign(interactiveChartFilters, state.interactiveChart, { brushWindow: fromStoredWindow(state.interactiveChart?.brushWindow) });
+    Object.assign(skillMatrixOptions, state.skillMatrix, { dateWindow: fromStoredWindow(state.skillMatrix?.dateWindow) });
+}
+
+/**
+ * Mirrors the filters and chart views into the URL fragment, so reloading or bookmarking
+ * the page restores them. The link only works for the profile's owner: the dashboard is
+ * built from the signed-in user's own history, so anyone else opening it sees the
+ * profile without stats.
+ */
+function updateViewStateHash() {
+    history.replaceState(history.state, '', `${window.location.pathname}${window.location.search}${encodeViewStateHash(getViewState())}`);
+}
+
+/**
+ * Removes a dashboard fragment from the URL, e.g. when leaving the stats tab.
+ */
+function clearViewStateHash() {
+    if (isViewStateHash(window.location.hash)) {
+        history.replaceState(history.state, '', `${window.location.pathname}${window.location.search}`);
+    }
+}
+
+/**
+ * Saves the filters and chart views once the user stops changing them, and updates the
+ * URL fragment straight away.
+ */
+function scheduleViewStateSave() {
+    updateViewStateHash();
+    if (!viewStateStore) return;
+    const store = viewStateStore;
+    clearTimeout(viewStateSaveTimeout);
+    viewStateSaveTimeout = window.setTimeout(() => {
+        // Losing a save only means the next visit starts from older filters.
+        store.save(getViewState()).catch(() => {});
+    }, VIEW_STATE_SAVE_DELAY_MS);
 }
 
 /**
  * Creates the main stats pane container with the grid layout for charts.
  */
-function createStatsPaneWithGrid(username: string): HTMLElement {
+function createStatsPaneWithGrid(
+    username: string,
+    options: PageLayoutOptions = {},
+    missingMetadataCount: number = 0
+): HTMLElement {
+    const { metadataStatus, resyncOffer, importHistory, settings } = options;
     const statsPane = document.createElement('div');
     statsPane.id = 'lc-stats-pane-grid';
     statsPane.className = 'w-full';
@@ -722,7 +1665,7 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
     const filtersHeader = createEl('div', 'flex items-center justify-between p-4 bg-layer-1 dark:bg-dark-layer-1 rounded-lg');
     const activityHeader = createEl('h2', styles.sectionHeader);
     activityHeader.textContent = 'Activity';
-    const filtersContainer = createEl('div', 'flex items-center space-x-4');
+    const filtersContainer = createEl('div', 'flex flex-wrap items-center justify-end gap-4');
     
     // Time Range Dropdown
     const timeDropdownContainer = createEl('div', 'relative');
@@ -749,9 +1692,10 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
         createDropdownOption('All Time', 'All Time', true),
         createDropdownOption('Last 30 Days', 'Last 30 Days', false),
         createDropdownOption('Last 90 Days', 'Last 90 Days', false),
-        createDropdownOption('Last 365 Days', 'Last 365 Days', false)
+        createDropdownOption('Last 365 Days', 'Last 365 Days', false),
+        createDropdownOption('Custom', 'Custom Range...', false)
     );
-    timeDropdownContainer.append(timeBtn, timeOptions);
+    timeDropdownContainer.append(timeBtn, timeOptions, createDateRangePicker('time-range'));
 
     // Difficulty Dropdown
     const diffDropdownContainer = createEl('div', 'relative');
@@ -782,8 +1726,17 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
     );
     diffDropdownContainer.append(diffBtn, diffOptions);
 
-    filtersContainer.append(timeDropdownContainer, diffDropdownContainer);
+    filtersContainer.append(
+        timeDropdownContainer,
+        diffDropdownContainer,
+        createMultiSelectDropdown('language-filter', 'Language'),
+        createMultiSelectDropdown('topic-filter', 'Topic'),
+        createMultiSelectDropdown('status-filter', 'Status'),
+        createResetViewButton()
+    );
     filtersHeader.append(activityHeader, filtersContainer);
+    const filterChips = createEl('div', 'flex flex-wrap items-center gap-2 px-4', 'active-filter-chips');
+    filterChips.style.display = 'none';
 
     // Charts Grid
     const chartsGrid = createEl('div', 'grid grid-cols-1 md:grid-cols-2 gap-4');
@@ -812,9 +1765,21 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
         createToggleBtn('yearly-view-btn', 'Yearly', 'inactive')
     );
     cumulativeHeader.append(cumulativeTitle, cumulativeToggle);
+    const forecastControls = createEl('div', `${styles.recordContext} flex items-center gap-2`);
+    const forecastToggle = createEl('div', 'text-sd-muted-foreground inline-flex items-center justify-center bg-sd-muted rounded-full p-[1px]');
+    forecastToggle.title = 'Project problems solved ahead at the recent pace';
+    forecastToggle.append(
+        createToggleBtn('forecast-off-btn', 'Off', cumulativeForecastDays === null ? 'active' : 'inactive'),
+        ...FORECAST_HORIZON_OPTIONS.map(([days, text]) =>
+            createToggleBtn(`forecast-${days}-days-btn`, text, days === cumulativeForecastDays ? 'active' : 'inactive')
+        )
+    );
+    forecastControls.append(document.createTextNode('Forecast'), forecastToggle);
     const cumulativeCanvasContainer = createEl('div', 'mt-4 relative h-64 w-full');
     cumulativeCanvasContainer.appendChild(createEl('canvas', '', 'cumulative-chart'));
-    cumulativeContainer.append(cumulativeHeader, cumulativeCanvasContainer);
+    const forecastNote = createEl('div', `${styles.recordContext} mt-2`, 'cumulative-forecast-note');
+    forecastNote.style.display = 'none';
+    cumulativeContainer.append(cumulativeHeader, forecastControls, cumulativeCanvasContainer, forecastNote);
     
     // Submission Breakdown
     const submissionContainer = createEl('div', 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4');
@@ -834,6 +1799,42 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
 
     chartsGrid.append(clockContainer, cumulativeContainer, submissionContainer, langContainer);
 
+    // Calendar Heatmap
+    const calendarSection = createEl('div', 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4 mt-4');
+    const calendarHeader = createEl('div', 'flex justify-between items-center mb-4');
+    const calendarTitle = createEl('div', styles.subSectionHeader);
+    calendarTitle.textContent = 'Daily Activity';
+    const calendarControls = createEl('div', 'flex items-center gap-4');
+    const calendarToggle = createEl('div', 'text-sd-muted-foreground inline-flex items-center justify-center bg-sd-muted rounded-full p-[1px]');
+    calendarToggle.append(
+        createToggleBtn('calendar-submissions-btn', 'Submissions', 'active'),
+        createToggleBtn('calendar-solved-btn', 'Problems Solved', 'inactive')
+    );
+    const calendarYearDropdownContainer = createEl('div', 'relative');
+    const calendarYearBtn = createEl('button', 'flex cursor-pointer items-center rounded px-3 py-1.5 text-left focus:outline-none whitespace-nowrap bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2 active:bg-fill-3 dark:active:bg-dark-fill-3', 'calendar-year-dropdown-btn') as HTMLButtonElement;
+    calendarYearBtn.type = 'button';
+    const calendarYearBtnSpan = document.createElement('span');
+    calendarYearBtnSpan.className = 'whitespace-nowrap';
+    const calendarYearBtnSvg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    calendarYearBtnSvg.setAttribute('viewBox', '0 0 24 24');
+    calendarYearBtnSvg.setAttribute('width', '1em');
+    calendarYearBtnSvg.setAttribute('height', '1em');
+    calendarYearBtnSvg.setAttribute('fill', 'currentColor');
+    calendarYearBtnSvg.setAttribute('aria-hidden', 'true');
+    calendarYearBtnSvg.classList.add('pointer-events-none', 'ml-3', 'w-4', 'h-4');
+    const calendarYearBtnPath = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    calendarYearBtnPath.setAttribute('fill-rule', 'evenodd');
+    calendarYearBtnPath.setAttribute('d', 'M4.929 7.913l7.078 7.057 7.064-7.057a1 1 0 111.414 1.414l-7.77 7.764a1 1 0 01-1.415 0L3.515 9.328a1 1 0 011.414-1.414z');
+    calendarYearBtnPath.setAttribute('clip-rule', 'evenodd');
+    calendarYearBtnSvg.appendChild(calendarYearBtnPath);
+    calendarYearBtn.append(calendarYearBtnSpan, calendarYearBtnSvg);
+    const calendarYearOptions = createEl('div', 'stats-dropdown-options hidden z-dropdown absolute max-h-56 w-full min-w-max overflow-auto rounded-lg p-2 focus:outline-none bg-overlay-3 dark:bg-dark-overlay-3 right-0 mt-2 shadow-level3 dark:shadow-dark-level3', 'calendar-year-dropdown-options');
+    calendarYearDropdownContainer.append(calendarYearBtn, calendarYearOptions);
+    calendarControls.append(calendarToggle, calendarYearDropdownContainer);
+    calendarHeader.append(calendarTitle, calendarControls);
+    const calendarHeatmapContainer = createEl('div', 'w-full', 'calendar-heatmap-container');
+    calendarSection.append(calendarHeader, calendarHeatmapContainer);
+
     // Skill Matrix Section
     const divider3 = createEl('div', 'border-divider-3 dark:border-dark-divider-3 mb-4 mt-4 h-px w-full border-b');
     const skillSection = createEl('div', 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4');
@@ -864,18 +1865,82 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
         createDropdownOption('All Time', 'All Time', true),
         createDropdownOption('Last 365 Days', 'Last 365 Days', false),
         createDropdownOption('Last 90 Days', 'Last 90 Days', false),
-        createDropdownOption('Last 30 Days', 'Last 30 Days', false)
+        createDropdownOption('Last 30 Days', 'Last 30 Days', false),
+        createDropdownOption('Custom', 'Custom Range...', false)
     );
-    skillDropdownContainer.append(skillBtn, skillOptions);
+    skillDropdownContainer.append(skillBtn, skillOptions, createDateRangePicker('skill-matrix-time-filter'));
     skillHeaderContainer.append(skillHeader, skillDropdownContainer);
     const skillMatrixContainer = createEl('div', 'mt-4', 'skill-matrix-container');
     skillSection.append(skillHeaderContainer, skillMatrixContainer);
 
+    // Review Queue Section
+    const divider5 = createEl('div', 'border-divider-3 dark:border-dark-divider-3 mb-4 mt-4 h-px w-full border-b');
+    const reviewSection = createEl('div', 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4');
+    const reviewHeaderContainer = createEl('div', 'flex justify-between items-center mb-4');
+    const reviewHeader = createEl('div', styles.sectionHeader);
+    reviewHeader.textContent = 'Review';
+    const reviewSummary = createEl('span', styles.recordContext, 'review-queue-summary');
+    reviewHeaderContainer.append(reviewHeader, reviewSummary);
+    const reviewQueueContainer = createEl('div', 'space-y-1', 'review-queue-container');
+    reviewSection.append(reviewHeaderContainer, reviewQueueContainer);
+
+    // Unsolved Problems Section
+    const divider6 = createEl('div', 'border-divider-3 dark:border-dark-divider-3 mb-4 mt-4 h-px w-full border-b');
+    const unsolvedSection = createEl('div', 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4');
+    const unsolvedHeaderContainer = createEl('div', 'flex justify-between items-center mb-4');
+    const unsolvedHeader = createEl('div', styles.sectionHeader);
+    unsolvedHeader.textContent = 'Unsolved';
+    const unsolvedToggle = createEl('div', 'text-sd-muted-foreground inline-flex items-center justify-center bg-sd-muted rounded-full p-[1px]');
+    unsolvedToggle.title = 'Count a problem as abandoned after this long without an attempt';
+    unsolvedToggle.append(...ABANDONED_AFTER_DAYS_OPTIONS.map(days =>
+        createToggleBtn(`unsolved-${days}-days-btn`, `${days}d`, days === abandonedAfterDays ? 'active' : 'inactive')
+    ));
+    unsolvedHeaderContainer.append(unsolvedHeader, unsolvedToggle);
+    const unsolvedProblemsContainer = createEl('div', 'space-y-2', 'unsolved-problems-container');
+    unsolvedSection.append(unsolvedHeaderContainer, unsolvedProblemsContainer);
+
+    // Problems Section
+    const divider4 = createEl('div', 'border-divider-3 dark:border-dark-divider-3 mb-4 mt-4 h-px w-full border-b');
+    const problemsSection = createEl('div', 'rounded-lg bg-layer-1 dark:bg-dark-layer-1 p-4');
+    const problemsHeaderContainer = createEl('div', 'flex justify-between items-center mb-4');
+    const problemsHeader = createEl('div', styles.sectionHeader);
+    problemsHeader.textContent = 'Problems';
+    const problemSearch = createEl('input', 'rounded px-3 py-1.5 bg-fill-3 dark:bg-dark-fill-3 text-label-1 dark:text-dark-label-1 focus:outline-none', 'problem-search-input') as HTMLInputElement;
+    problemSearch.type = 'search';
+    problemSearch.placeholder = 'Search title, topic or language';
+    problemsHeaderContainer.append(problemsHeader, problemSearch);
+    const problemTableContainer = createEl('div', 'w-full', 'problem-table-container');
+    problemsSection.append(problemsHeaderContainer, problemTableContainer);
+
+    // Problem Detail Modal
+    const problemDetailModal = createEl('div', 'fixed inset-0 flex items-center justify-center p-4', 'problem-detail-modal');
+    problemDetailModal.style.display = 'none';
+    problemDetailModal.style.zIndex = '10000';
+    problemDetailModal.style.backgroundColor = 'rgba(26, 26, 26, 0.7)';
+    problemDetailModal.style.backdropFilter = 'blur(8px)';
+    const problemDetailContainer = createEl('div', 'bg-layer-1 dark:bg-dark-layer-1 rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto', 'problem-detail-container');
+    problemDetailModal.appendChild(problemDetailContainer);
+
     // Append all sections to the main container
-    mainContainer.append(interactiveSection, divider1, legacySection, divider2, filtersHeader, chartsGrid, divider3, skillSection);
+    mainContainer.append(interactiveSection, divider1, legacySection, divider2, filtersHeader, filterChips, chartsGrid, calendarSection, divider3, skillSection, divider5, reviewSection, divider6, unsolvedSection, divider4, problemsSection);
+
+    if (missingMetadataCount > 0) {
+        mainContainer.prepend(createMissingMetadataWarning(missingMetadataCount));
+    }
+    if (resyncOffer) {
+        mainContainer.prepend(createResyncWarning(resyncOffer));
+    }
+    if (metadataStatus) {
+        mainContainer.appendChild(createDataStatusNote(metadataStatus));
+    }
+    mainContainer.appendChild(createExportControls(importHistory));
+    if (settings) {
+        mainContainer.appendChild(createSettingsControls(settings));
+    }
     
     // Append the dynamically created main container to the statsPane
     statsPane.appendChild(mainContainer);
+    statsPane.appendChild(problemDetailModal);
 
     // Safely parse and append the Bento Modal HTML
     const bentoHtml = createBentoModalHTML();
@@ -887,6 +1952,294 @@ function createStatsPaneWithGrid(username: string): HTMLElement {
     return statsPane;
 }
 
+/**
+ * Counts attempted problems whose metadata is missing, and which are therefore
+ * left out of difficulty and topic breakdowns.
+ */
+function countProblemsWithoutMetadata(processedData: ProcessedData): number {
+    let count = 0;
+    for (const subs of processedData.problemMap.values()) {
+        if (!subs[0].metadata) count++;
+    }
+    return count;
+}
+
+/**
+ * Creates the warning shown when some problems have no difficulty or topic data.
+ */
+function createMissingMetadataWarning(missingCount: number): HTMLElement {
+    const warning = document.createElement('div');
+    warning.id = 'missing-metadata-warning';
+    warning.className = 'rounded-lg p-4 text-sm bg-layer-1 dark:bg-dark-layer-1';
+    warning.style.color = colors.problems.medium;
+    const subject = missingCount === 1 ? 'Details for 1 problem are missing, so it counts' :
+        `Details for ${missingCount} problems are missing, so they count`;
+    warning.textContent = `${subject} as "Unknown" in your solved total and ${missingCount === 1 ? 'is' : 'are'} ` +
+        'left out of difficulty and topic breakdowns. Lookups that failed are retried on your next visit; ' +
+        'problems LeetCode could not find are checked again once a day.';
+    return warning;
+}
+
+/**
+ * Creates the warning shown when the cached submissions look incomplete or corrupted,
+ * with a button that re-fetches only the affected range.
+ */
+function createResyncWarning(offer: ResyncOffer): HTMLElement {
+    const { report } = offer;
+    const warning = document.createElement('div');
+    warning.id = 'resync-warning';
+    warning.className = 'flex items-center gap-4 rounded-lg p-4 text-sm bg-layer-1 dark:bg-dark-layer-1';
+    warning.style.color = colors.problems.medium;
+
+    const problems: string[] = [];
+    if (report.acceptedShortfall > 0) {
+        problems.push(`LeetCode reports ${report.expectedAccepted} accepted submissions but only ${report.cachedAccepted} are cached`);
+    }
+    if (report.orderingAnomalies > 0) {
+        problems.push(`${report.orderingAnomalies} cached ${report.orderingAnomalies === 1 ? 'submission has' : 'submissions have'} an out-of-order timestamp`);
+    }
+
+    const message = document.createElement('span');
+    message.className = 'flex-1';
+    message.textContent = `${problems.join('; ')}. Re-syncing fetches only the affected range and keeps the rest of your cache.`;
+
+    const button = document.createElement('button');
+    button.className = 'whitespace-nowrap rounded-lg px-3 py-1.5 text-sm font-medium bg-fill-3 dark:bg-dark-fill-3 text-label-1 dark:text-dark-label-1';
+    button.textContent = 'Re-sync';
+    button.addEventListener('click', async () => {
+        button.disabled = true;
+        button.textContent = 'Re-syncing...';
+        try {
+            const repaired = await offer.resync(checked => {
+                button.textContent = `Checked ${checked}...`;
+            });
+            message.textContent = repaired > 0 ?
+                `Repaired ${repaired} ${repaired === 1 ? 'submission' : 'submissions'}. Reload the page to see updated stats.` :
+                'Re-sync complete; your cache already matched LeetCode, so this will not be reported again.';
+            button.remove();
+        } catch (err) {
+            message.textContent = 'Re-sync failed. Please try again later.';
+            button.disabled = false;
+            button.textContent = 'Re-sync';
+        }
+    });
+
+    warning.append(message, button);
+    return warning;
+}
+
+/**
+ * Creates the footer note describing how fresh the cached problem metadata is.
+ */
+function createDataStatusNote(metadataStatus: MetadataStatus): HTMLElement {
+    const note = document.createElement('div');
+    note.id = 'data-status-note';
+    note.className = `${styles.dataStatusNote} px-4`;
+
+    let text = `Problem details cached for ${metadataStatus.total} problems`;
+    if (metadataStatus.stale > 0) {
+        text += `, ${metadataStatus.stale} due for a refresh`;
+    }
+    if (metadataStatus.failed > 0) {
+        text += `, ${metadataStatus.failed} pending a retry`;
+    }
+    if (metadataStatus.oldestFetchedAt) {
+        text += ` (oldest fetched ${new Date(metadataStatus.oldestFetchedAt).toLocaleDateString('en-GB')})`;
+    }
+    note.textContent = `${text}.`;
+    return note;
+}
+
+/**
+ * Creates the footer controls for downloading the submission history and for
+ * importing a previous export.
+ */
+function createExportControls(importHistory?: PageLayoutOptions['importHistory']): HTMLElement {
+    const controls = document.createElement('div');
+    controls.id = 'export-controls';
+    controls.className = `${styles.dataStatusNote} flex flex-wrap items-center gap-3 px-4`;
+
+    const label = document.createElement('span');
+    label.textContent = 'Export submissions:';
+
+    const createActionBtn = (id: string, text: string) => {
+        const btn = document.createElement('button');
+        btn.id = id;
+        btn.type = 'button';
+        btn.className = 'rounded px-2 py-1 font-medium bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2';
+        btn.textContent = text;
+        return btn;
+    };
+
+    const filterToggle = document.createElement('label');
+    filterToggle.className = 'flex cursor-pointer items-center gap-1';
+    const filterCheckbox = document.createElement('input');
+    filterCheckbox.type = 'checkbox';
+    filterCheckbox.id = 'export-apply-filters';
+    filterToggle.append(filterCheckbox, document.createTextNode('Apply activity filters'));
+
+    controls.append(label, createActionBtn('export-json-btn', 'JSON'), createActionBtn('export-csv-btn', 'CSV'), filterToggle);
+
+    if (importHistory) {
+        const importBtn = createActionBtn('import-json-btn', 'Import JSON');
+        importBtn.classList.add('ml-auto');
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.json,application/json';
+        fileInput.style.display = 'none';
+        const status = document.createElement('span');
+        status.id = 'import-status';
+
+        importBtn.addEventListener('click', () => fileInput.click());
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            fileInput.value = '';
+            if (!file) return;
+
+            importBtn.setAttribute('disabled', 'true');
+            status.textContent = 'Importing...';
+            try {
+                const summary = await importHistory(await file.text());
+                status.textContent = summary.imported > 0 ?
+                    `Imported ${summary.imported} new ${summary.imported === 1 ? 'submission' : 'submissions'}. Reload the page to see them.` :
+                    'Nothing new to import; every submission in the file is already cached.';
+            } catch (err) {
+                status.textContent = err instanceof Error ? `Import failed: ${err.message}` : 'Import failed.';
+            } finally {
+                importBtn.removeAttribute('disabled');
+            }
+        });
+
+        controls.append(importBtn, fileInput, status);
+    }
+
+    return controls;
+}
+
+/**
+ * Wires the export buttons to download the submission history as JSON or CSV.
+ */
+function setupExportListeners(processedData: ProcessedData, username: string) {
+    const jsonBtn = document.getElementById('export-json-btn');
+    const csvBtn = document.getElementById('export-csv-btn');
+    const applyFilters = document.getElementById('export-apply-filters') as HTMLInputElement | null;
+    if (!jsonBtn || !csvBtn) return;
+
+    const download = (format: 'json' | 'csv') => {
+        const rows = getExportRows(processedData, applyFilters?.checked ? currentFilters : undefined);
+        const blob = format === 'json' ?
+            new Blob([toExportJSON(rows, username, !!applyFilters?.checked)], { type: 'application/json' }) :
+            new Blob([toExportCSV(rows)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `leetstats-${username}-${new Date().toISOString().slice(0, 10)}.${format}`;
+        // Firefox ignores clicks on detached links, and can cancel a download whose URL is
+        // revoked before it starts.
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+    };
+
+    jsonBtn.addEventListener('click', () => download('json'));
+    csvBtn.addEventListener('click', () => download('csv'));
+}
+
+/**
+ * Creates the footer row of analytics settings.
+ */
+function createSettingsControls(settings: SettingsStore): HTMLElement {
+    const controls = document.createElement('div');
+    controls.id = 'settings-controls';
+    controls.className = `${styles.dataStatusNote} flex flex-wrap items-center gap-3 px-4`;
+
+    const timeZoneLabel = document.createElement('label');
+    timeZoneLabel.className = 'flex items-center gap-2';
+    const timeZoneSelect = document.createElement('select');
+    timeZoneSelect.id = 'timezone-select';
+    timeZoneSelect.className = 'rounded px-2 py-1 bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2';
+
+    const addOption = (value: string, text: string) => {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = text;
+        timeZoneSelect.appendChild(option);
+    };
+    addOption('', `Browser default (${Intl.DateTimeFormat().resolvedOptions().timeZone})`);
+    addOption('UTC', 'UTC');
+    const zones = Intl.supportedValuesOf('timeZone').filter(zone => zone !== 'UTC');
+    // Keep a saved zone selectable even if this browser does not list it.
+    const { timeZone } = settings.current;
+    if (timeZone && timeZone !== 'UTC' && !zones.includes(timeZone)) {
+        zones.unshift(timeZone);
+    }
+    zones.forEach(zone => addOption(zone, zone.replace(/_/g, ' ')));
+    timeZoneSelect.value = timeZone || '';
+
+    timeZoneLabel.append(document.createTextNode('Timezone:'), timeZoneSelect);
+
+    const createSettingSelect = (id: string, labelText: string, options: [number, string][], value: number) => {
+        const label = document.createElement('label');
+        label.className = 'flex items-center gap-2';
+        const select = document.createElement('select');
+        select.id = id;
+        select.className = timeZoneSelect.className;
+        options.forEach(([optionValue, text]) => {
+            const option = document.createElement('option');
+            option.value = String(optionValue);
+            option.textContent = text;
+            select.appendChild(option);
+        });
+        select.value = String(value);
+        label.append(document.createTextNode(labelText), select);
+        return label;
+    };
+
+    const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    const rolloverHours = Array.from({ length: 7 }, (_, hour): [number, string] => [hour, hour === 0 ? 'Midnight' : `${hour} AM`]);
+
+    controls.append(
+        timeZoneLabel,
+        createSettingSelect('week-start-select', 'Week starts on:', weekdays.map((day, i): [number, string] => [i, day]), settings.current.weekStart),
+        createSettingSelect('day-rollover-select', 'Day ends at:', rolloverHours, settings.current.dayRolloverHour)
+    );
+    return controls;
+}
+
+/**
+ * Applies and saves changes made to the analytics settings.
+ */
+function setupSettingsListeners(processedData: ProcessedData) {
+    const timeZoneSelect = document.getElementById('timezone-select') as HTMLSelectElement | null;
+    const weekStartSelect = document.getElementById('week-start-select') as HTMLSelectElement | null;
+    const rolloverSelect = document.getElementById('day-rollover-select') as HTMLSelectElement | null;
+    if (!timeZoneSelect || !weekStartSelect || !rolloverSelect || !settingsStore) return;
+    const store = settingsStore;
+
+    const updateSettings = (changes: Partial<AnalyticsSettings>) => {
+        store.current = { ...store.current, ...changes };
+        rerenderAllCharts(processedData);
+        // A lost save only means the next visit uses the previous settings.
+        store.save(store.current).catch(() => {});
+    };
+
+    timeZoneSelect.addEventListener('change', () => {
+        applyTimeZone(processedData, timeZoneSelect.value || null);
+        updateSettings({ timeZone: timeZoneSelect.value || null });
+    });
+    weekStartSelect.addEventListener('change', () => {
+        const weekStart = parseInt(weekStartSelect.value, 10);
+        setCalendarSettings({ ...store.current, weekStart });
+        updateSettings({ weekStart });
+    });
+    rolloverSelect.addEventListener('change', () => {
+        const dayRolloverHour = parseInt(rolloverSelect.value, 10);
+        setCalendarSettings({ ...store.current, dayRolloverHour });
+        updateSettings({ dayRolloverHour });
+    });
+}
+
 /**
  * Sets up the logic for switching between the original LeetCode tabs and the new stats tab.
  */
@@ -989,7 +2342,10 @@ function setupTabLogic(
             requestAnimationFrame(() => {
                 renderAllCharts(processedData, username);
                 window.statsRendered = true;
+                updateViewStateHash();
             });
+        } else if (window.statsRendered) {
+            updateViewStateHash();
         }
     });
 
@@ -1007,6 +2363,7 @@ function setupTabLogic(
 
             statsPane.style.display = 'none';
             stopContentObservation();
+            clearViewStateHash();
 
             if (generateCardBtn) {
                 generateCardBtn.style.display = 'none';
@@ -1029,6 +2386,12 @@ function setupTabLogic(
 
     (tabBar as HTMLElement).style.display = 'flex';
     startContentObservation();
+
+    // Opening a dashboard link goes straight to the stats. Deferred so a render
+    // already queued by `renderPageLayout` runs first and is not repeated.
+    if (linkedViewStateHash) {
+        requestAnimationFrame(() => statsTab.click());
+    }
 }
 
 /**
@@ -1171,6 +2534,326 @@ function getMilestoneColor(type: string): string {
     return colorMap[type] || colors.text.primary;
 }
 
+/**
+ * Creates the button that puts every filter and chart view back to its default.
+ */
+function createResetViewButton(): HTMLElement {
+    const btn = document.createElement('button');
+    btn.id = 'reset-view-btn';
+    btn.type = 'button';
+    btn.className = 'rounded px-3 py-1.5 whitespace-nowrap text-label-3 dark:text-dark-label-3 hover:text-label-1 dark:hover:text-dark-label-1';
+    btn.title = 'Reset all filters and chart views to their defaults';
+    btn.textContent = 'Reset';
+    return btn;
+}
+
+/**
+ * Creates the badge shown next to a streak that ends today unless there is activity.
+ */
+function createStreakAtRiskBadge(): HTMLElement {
+    const badge = document.createElement('span');
+    badge.className = 'rounded-full px-2 py-0.5 text-xs font-medium';
+    badge.style.color = colors.status.timeLimitExceeded;
+    badge.style.backgroundColor = 'rgba(255, 183, 0, 0.15)';
+    badge.title = 'No submissions yet today. Submit before the day ends to keep the streak.';
+    badge.textContent = 'At risk';
+    return badge;
+}
+
+/**
+ * Lists past long streaks below the records, newest first.
+ */
+function createStreakHistory(history: StreakPeriod[]): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'mt-4 p-2';
+    const header = document.createElement('div');
+    header.className = styles.recordLabel;
+    header.textContent = 'Streak History';
+    const list = document.createElement('div');
+    list.className = 'mt-2 space-y-1';
+    history.forEach(period => {
+        const item = document.createElement('div');
+        item.className = 'flex justify-between items-center';
+        const range = document.createElement('span');
+        range.className = styles.recordContext;
+        range.textContent = `${period.startDate.toLocaleDateString('en-GB')} – ${period.endDate.toLocaleDateString('en-GB')}`;
+        const length = document.createElement('span');
+        length.className = styles.recordContext;
+        length.textContent = `${period.length} days`;
+        item.append(range, length);
+        list.appendChild(item);
+    });
+    container.append(header, list);
+    return container;
+}
+
+/**
+ * Builds the language, topic and status filters from the values present in the data.
+ * Statuses are grouped by label, so e.g. "Runtime Error" covers every code it stands for.
+ */
+function getMultiSelectFilters(processedData: ProcessedData): MultiSelectFilter[] {
+    const languages = new Set<string>();
+    const topics = new Set<string>();
+    const statusCodesByLabel = new Map<string, number[]>();
+
+    for (const sub of processedData.submissions) {
+        languages.add(sub.lang);
+        sub.metadata?.topics.forEach(topic => topics.add(topic));
+        const label = getStatusLabel(sub.status);
+        const codes = statusCodesByLabel.get(label) || [];
+        if (!codes.includes(sub.status)) codes.push(sub.status);
+        statusCodesByLabel.set(label, codes);
+    }
+
+    const byLabel = (a: { label: string }, b: { label: string }) => a.label.localeCompare(b.label);
+
+    return [{
+        prefix: 'language-filter',
+        label: 'Language',
+        options: Array.from(languages, lang => ({ key: lang, label: lang })).sort(byLabel),
+        getSelected: () => currentFilters.languages,
+        setSelected: keys => { currentFilters.languages = keys; },
+    }, {
+        prefix: 'topic-filter',
+        label: 'Topic',
+        options: Array.from(topics, topic => ({ key: topic, label: formatTopicName(topic) })).sort(byLabel),
+        getSelected: () => currentFilters.topics,
+        setSelected: keys => { currentFilters.topics = keys; },
+    }, {
+        prefix: 'status-filter',
+        label: 'Status',
+        options: Array.from(statusCodesByLabel.keys(), label => ({ key: label, label })).sort(byLabel),
+        getSelected: () => Array.from(statusCodesByLabel.keys())
+            .filter(label => statusCodesByLabel.get(label)!.every(code => currentFilters.statuses.includes(code))),
+        setSelected: keys => { currentFilters.statuses = keys.flatMap(label => statusCodesByLabel.get(label) || []); },
+    }];
+}
+
+/**
+ * Creates an empty multi-select dropdown; its checkboxes are added once the data is known.
+ * @param prefix The id prefix, shared with the dropdown's `MultiSelectFilter`.
+ * @param label The button label.
+ */
+function createMultiSelectDropdown(prefix: string, label: string): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'relative';
+
+    const btn = document.createElement('button');
+    btn.id = `${prefix}-dropdown-btn`;
+    btn.type = 'button';
+    btn.className = 'flex cursor-pointer items-center rounded px-3 py-1.5 text-left focus:outline-none whitespace-nowrap bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2 active:bg-fill-3 dark:active:bg-dark-fill-3';
+    btn.setAttribute('aria-expanded', 'false');
+    const btnSpan = document.createElement('span');
+    btnSpan.className = 'whitespace-nowrap';
+    btnSpan.textContent = label;
+    const btnSvg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    btnSvg.setAttribute('viewBox', '0 0 24 24');
+    btnSvg.setAttribute('width', '1em');
+    btnSvg.setAttribute('height', '1em');
+    btnSvg.setAttribute('fill', 'currentColor');
+    btnSvg.setAttribute('aria-hidden', 'true');
+    btnSvg.classList.add('pointer-events-none', 'ml-3', 'w-4', 'h-4');
+    const btnPath = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    btnPath.setAttribute('fill-rule', 'evenodd');
+    btnPath.setAttribute('d', 'M4.929 7.913l7.078 7.057 7.064-7.057a1 1 0 111.414 1.414l-7.77 7.764a1 1 0 01-1.415 0L3.515 9.328a1 1 0 011.414-1.414z');
+    btnPath.setAttribute('clip-rule', 'evenodd');
+    btnSvg.appendChild(btnPath);
+    btn.append(btnSpan, btnSvg);
+
+    const options = document.createElement('div');
+    options.id = `${prefix}-dropdown-options`;
+    options.className = 'stats-dropdown-options hidden z-dropdown absolute max-h-56 w-full min-w-max overflow-auto rounded-lg p-2 focus:outline-none bg-overlay-3 dark:bg-dark-overlay-3 right-0 mt-2 shadow-level3 dark:shadow-dark-level3';
+    options.setAttribute('role', 'listbox');
+    options.setAttribute('aria-multiselectable', 'true');
+
+    container.append(btn, options);
+    return container;
+}
+
+/**
+ * Fills a multi-select dropdown with one checkbox per option and wires it to its filter.
+ * @param filter The filter the dropdown controls.
+ * @param onChange Called after the selection changes.
+ * @returns A function that re-syncs the checkboxes and button label with the filter.
+ */
+function setupMultiSelectDropdown(filter: MultiSelectFilter, onChange: () => void): () => void {
+    const dropdownBtn = document.getElementById(`${filter.prefix}-dropdown-btn`);
+    const dropdownOptions = document.getElementById(`${filter.prefix}-dropdown-options`);
+    if (!dropdownBtn || !dropdownOptions) return () => {};
+
+    dropdownBtn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const isHidden = dropdownOptions.classList.contains('hidden');
+        document.querySelectorAll('.stats-dropdown-options').forEach(el => {
+            if (el !== dropdownOptions) {
+                el.classList.add('hidden');
+                document.getElementById(el.id.replace('-options', '-btn'))?.setAttribute('aria-expanded', 'false');
+            }
+        });
+        dropdownOptions.classList.toggle('hidden', !isHidden);
+        dropdownBtn.setAttribute('aria-expanded', String(isHidden));
+    });
+
+    dropdownOptions.replaceChildren();
+    if (filter.options.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'px-2 py-1.5 text-label-3 dark:text-dark-label-3 whitespace-nowrap';
+        empty.textContent = 'No data';
+        dropdownOptions.appendChild(empty);
+    }
+
+    const checkboxes = filter.options.map(option => {
+        const row = document.createElement('label');
+        row.className = 'flex h-8 cursor-pointer select-none items-center gap-2 py-1.5 px-2 text-label-2 dark:text-dark-label-2 hover:text-label-1 dark:hover:text-dark-label-1 rounded whitespace-nowrap';
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.value = option.key;
+        checkbox.addEventListener('change', () => {
+            filter.setSelected(checkboxes.filter(cb => cb.checked).map(cb => cb.value));
+            onChange();
+        });
+        row.append(checkbox, document.createTextNode(option.label));
+        dropdownOptions.appendChild(row);
+        return checkbox;
+    });
+
+    return () => {
+        const selected = filter.getSelected();
+        checkboxes.forEach(cb => { cb.checked = selected.includes(cb.value); });
+        const btnTextSpan = dropdownBtn.querySelector('span');
+        if (btnTextSpan) {
+            btnTextSpan.textContent = selected.length > 0 ? `${filter.label} (${selected.length})` : filter.label;
+        }
+    };
+}
+
+/**
+ * Shows one removable chip per selected language, topic and status below the filters.
+ * @param filters The multi-select filters.
+ * @param onChange Called after a chip is removed.
+ */
+function renderFilterChips(filters: MultiSelectFilter[], onChange: () => void) {
+    const container = document.getElementById('active-filter-chips');
+    if (!container) return;
+    container.replaceChildren();
+
+    for (const filter of filters) {
+        const selected = filter.getSelected();
+        for (const option of filter.options.filter(opt => selected.includes(opt.key))) {
+            const chip = document.createElement('button');
+            chip.type = 'button';
+            chip.className = 'inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs bg-fill-3 dark:bg-dark-fill-3 text-label-2 dark:text-dark-label-2 hover:bg-fill-2 dark:hover:bg-dark-fill-2';
+            chip.title = `Remove ${filter.label.toLowerCase()} filter`;
+            const text = document.createElement('span');
+            text.textContent = `${filter.label}: ${option.label}`;
+            const remove = document.createElement('span');
+            remove.setAttribute('aria-hidden', 'true');
+            remove.textContent = '×';
+            chip.append(text, remove);
+            chip.addEventListener('click', () => {
+                filter.setSelected(filter.getSelected().filter(key => key !== option.key));
+                onChange();
+            });
+            container.appendChild(chip);
+        }
+    }
+
+    container.style.display = container.childElementCount > 0 ? 'flex' : 'none';
+}
+
+/**
+ * Formats a custom date window for a dropdown button label, by the activity days it covers.
+ */
+function formatDateWindow([start, end]: DateWindow): string {
+    const format = (date: Date) => getActivityDay(date).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+    return `${format(start)} – ${format(end)}`;
+}
+
+/**
+ * Creates the hidden start/end date popover shown when "Custom Range..." is picked.
+ * @param prefix The id prefix of the dropdown it belongs to.
+ */
+function createDateRangePicker(prefix: string): HTMLElement {
+    const picker = document.createElement('div');
+    picker.id = `${prefix}-date-range-picker`;
+    picker.className = 'stats-date-range-picker hidden z-dropdown absolute right-0 mt-2 flex flex-col gap-2 rounded-lg p-3 text-sm bg-overlay-3 dark:bg-dark-overlay-3 shadow-level3 dark:shadow-dark-level3 text-label-2 dark:text-dark-label-2';
+
+    const createDateField = (labelText: string, id: string) => {
+        const label = document.createElement('label');
+        label.className = 'flex items-center justify-between gap-3';
+        const input = document.createElement('input');
+        input.type = 'date';
+        input.id = id;
+        input.className = 'rounded px-2 py-1 bg-fill-3 dark:bg-dark-fill-3';
+        label.append(document.createTextNode(labelText), input);
+        return label;
+    };
+
+    const error = document.createElement('div');
+    error.id = `${prefix}-date-range-error`;
+    error.className = 'hidden text-xs';
+    error.style.color = colors.problems.hard;
+
+    const actions = document.createElement('div');
+    actions.className = 'flex justify-end gap-2';
+    const createActionBtn = (id: string, text: string) => {
+        const btn = document.createElement('button');
+        btn.id = id;
+        btn.type = 'button';
+        btn.className = 'rounded px-3 py-1 font-medium bg-fill-3 dark:bg-dark-fill-3 hover:bg-fill-2 dark:hover:bg-dark-fill-2';
+        btn.textContent = text;
+        return btn;
+    };
+    actions.append(createActionBtn(`${prefix}-date-range-cancel`, 'Cancel'), createActionBtn(`${prefix}-date-range-apply`, 'Apply'));
+
+    picker.append(
+        createDateField('From', `${prefix}-date-range-start`),
+        createDateField('To', `${prefix}-date-range-end`),
+        error,
+        actions
+    );
+    return picker;
+}
+
+/**
+ * Shows a date range popover and reports the picked window, spanning from the start
+ * of the first day to the end of the last.
+ * @param prefix The id prefix passed to `createDateRangePicker`.
+ * @param initialWindow The window to prefill, if one is already applied.
+ * @param onApply Called with the picked window.
+ */
+function openDateRangePicker(prefix: string, initialWindow: DateWindow | undefined, onApply: (dateWindow: DateWindow) => void) {
+    const picker = document.getElementById(`${prefix}-date-range-picker`);
+    const startInput = document.getElementById(`${prefix}-date-range-start`) as HTMLInputElement | null;
+    const endInput = document.getElementById(`${prefix}-date-range-end`) as HTMLInputElement | null;
+    const error = document.getElementById(`${prefix}-date-range-error`);
+    const applyBtn = document.getElementById(`${prefix}-date-range-apply`);
+    const cancelBtn = document.getElementById(`${prefix}-date-range-cancel`);
+    if (!picker || !startInput || !endInput || !error || !applyBtn || !cancelBtn) return;
+
+    const today = getActivityDay(zonedNow());
+    startInput.value = initialWindow ? toDayKey(getActivityDay(initialWindow[0])) : '';
+    endInput.value = toDayKey(initialWindow ? getActivityDay(initialWindow[1]) : today);
+    startInput.max = endInput.max = toDayKey(today);
+    error.classList.add('hidden');
+    picker.classList.remove('hidden');
+
+    // Replace any listeners from a previous opening.
+    applyBtn.onclick = () => {
+        if (!startInput.value || !endInput.value || startInput.value > endInput.value) {
+            error.textContent = 'Pick a start date on or before the end date.';
+            error.classList.remove('hidden');
+            return;
+        }
+        const [startYear, startMonth, startDay] = startInput.value.split('-').map(Number);
+        const [endYear, endMonth, endDay] = endInput.value.split('-').map(Number);
+        picker.classList.add('hidden');
+        const { start, end } = toActivityWindow(new Date(startYear, startMonth - 1, startDay), new Date(endYear, endMonth - 1, endDay));
+        onApply([start, end]);
+    };
+    cancelBtn.onclick = () => picker.classList.add('hidden');
+}
+
 /**
  * Updates the visual state of the cumulative view toggle buttons.
  */
@@ -1191,7 +2874,12 @@ function updateCumulativeViewToggle(activeView: CumulativeView) {
 /**
  * Calculates the best cumulative view (Daily, Monthly, Yearly) based on the time range and data span.
  */
-export function getSmartCumulativeView(timeRange: TimeRange, processedData: ProcessedData): CumulativeView {
+export function getSmartCumulativeView(timeRange: TimeRange, processedData: ProcessedData, dateWindow?: DateWindow): CumulativeView {
+    if (dateWindow) {
+        const windowDays = (dateWindow[1].getTime() - dateWindow[0].getTime()) / (1000 * 3600 * 24);
+        if (windowDays > 365 * 4) return 'Yearly';
+        return windowDays > 90 ? 'Monthly' : 'Daily';
+    }
     if (timeRange === 'Last 30 Days' || timeRange === 'Last 90 Days') {
         return 'Daily';
     }
@@ -23,4 +23,7 @@ export const styles = {
   skillMatrixColumnHeader: "text-xs font-semibold uppercase tracking-wider text-gray-400",
   skillMatrixRowLabel: "text-base font-medium text-gray-300",
   skillMatrixCellValue: "text-base text-gray-200",
+
+  // === Data Status ===
+  dataStatusNote: "text-sm text-gray-400 dark:text-dark-label-2", // Quiet footer about cache health
 };
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { DashboardViewState } from '../types';
+import { decodeViewStateHash, encodeViewStateHash } from './viewStateHash';
+import { setCalendarSettings } from '../analysis/calendar';
+
+/** The recipient's own saved state, which a link is applied on top of. */
+function makeBase(): DashboardViewState {
+    return {
+        filters: {
+            timeRange: 'Last 90 Days',
+            difficulty: 'Hard',
+            languages: ['cpp'],
+            topics: [],
+            statuses: [],
+            clockView: 'HourOfDay',
+            cumulativeView: 'Monthly',
+        },
+        interactiveChart: {
+            primaryView: 'Submissions',
+            secondaryView: 'Language',
+            brushWindow: [new Date(2023, 0, 1).getTime(), new Date(2023, 1, 1).getTime()],
+        },
+        skillMatrix: {
+            timeRange: 'All Time',
+            chartView: 'Monthly',
+            showDifficultySplit: false,
+            selectedMetric: 'problemsSolved',
+        },
+    };
+}
+
+afterEach(() => {
+    setCalendarSettings({ dayRolloverHour: 0, weekStart: 1 });
+});
+
+describe('decodeViewStateHash', () => {
+    it('ignores fragments that are not dashboard links', () => {
+        expect(decodeViewStateHash('#comments', makeBase())).toBeNull();
+    });
+
+    it('round-trips an encoded state', () => {
+        const state = makeBase();
+        state.interactiveChart.brushWindow = undefined;
+        state.skillMatrix.expandedTopics = [];
+        expect(decodeViewStateHash(encodeViewStateHash(state), makeBase())).toEqual(state);
+    });
+
+    it('does not carry the recipient\'s brush into a link without one', () => {
+        const decoded = decodeViewStateHash('#leetstats?range=All+Time&chart=Problems+Solved', makeBase());
+        expect(decoded?.interactiveChart.brushWindow).toBeUndefined();
+        expect(decoded?.interactiveChart.primaryView).toBe('Problems Solved');
+    });
+
+    it('keeps the base value for hostile or unknown single values', () => {
+        for (const clock of ['constructor', 'toString', '__proto__', 'hasOwnProperty', 'nope']) {
+            const decoded = decodeViewStateHash(`#leetstats?clock=${clock}&difficulty=constructor`, makeBase());
+            expect(decoded?.filters.clockView).toBe('HourOfDay');
+            expect(decoded?.filters.difficulty).toBe('Hard');
+        }
+        expect(decodeViewStateHash('#leetstats?clock=day', makeBase())?.filters.clockView).toBe('DayOfWeek');
+    });
+
+    it('spans linked custom ranges by activity day, and writes them back unchanged', () => {
+        setCalendarSettings({ dayRolloverHour: 4, weekStart: 1 });
+        const hash = '#leetstats?range=Custom&from=2024-06-01&to=2024-06-10';
+        const decoded = decodeViewStateHash(hash, makeBase())!;
+
+        expect(decoded.filters.dateWindow).toEqual([
+            new Date(2024, 5, 1, 4).getTime(),
+            new Date(2024, 5, 11, 3, 59, 59, 999).getTime(),
+        ]);
+        const params = new URLSearchParams(encodeViewStateHash(decoded).slice('#leetstats?'.length));
+        expect([params.get('from'), params.get('to')]).toEqual(['2024-06-01', '2024-06-10']);
+    });
+});
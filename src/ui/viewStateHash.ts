@@ -0,0 +1,154 @@
+import type {
+    DashboardViewState,
+    StoredDateWindow,
+    TimeRange,
+    Difficulty,
+    ClockView,
+    CumulativeView,
+    InteractiveChartFilters,
+} from '../types';
+import { toDayKey } from '../analysis/timezone';
+import { getActivityDay, toActivityWindow } from '../analysis/calendar';
+
+// Marks a fragment as ours, so anchors LeetCode or other extensions use are left alone.
+const HASH_PREFIX = '#leetstats?';
+
+const TIME_RANGES: TimeRange[] = ['All Time', 'Last 30 Days', 'Last 90 Days', 'Last 365 Days', 'Custom'];
+const DIFFICULTIES: Difficulty[] = ['All', 'Easy', 'Medium', 'Hard'];
+const CUMULATIVE_VIEWS: CumulativeView[] = ['Daily', 'Monthly', 'Yearly'];
+const PRIMARY_VIEWS: InteractiveChartFilters['primaryView'][] = ['Problems Solved', 'Submissions'];
+const SECONDARY_VIEWS: InteractiveChartFilters['secondaryView'][] = ['Difficulty', 'Language', 'Status'];
+
+// Short names keep the links readable.
+// A Map, so a hand-edited value like `constructor` can't reach Object.prototype.
+const CLOCK_VIEWS = new Map<string, ClockView>([['day', 'DayOfWeek'], ['hour', 'HourOfDay']]);
+
+/**
+ * Writes a window as two day parameters, e.g. `from` and `to`, naming the activity days
+ * it covers.
+ */
+function setWindowParams(params: URLSearchParams, fromKey: string, toKey: string, dateWindow?: StoredDateWindow) {
+    if (!dateWindow) return;
+    params.set(fromKey, toDayKey(getActivityDay(new Date(dateWindow[0]))));
+    params.set(toKey, toDayKey(getActivityDay(new Date(dateWindow[1]))));
+}
+
+/**
+ * Reads a window written by `setWindowParams`, spanning from the start of the first
+ * activity day to the end of the last (see `toActivityWindow`).
+ */
+function getWindowParam(params: URLSearchParams, fromKey: string, toKey: string): StoredDateWindow | undefined {
+    const parseDay = (value: string | null) => {
+        const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+    };
+    const start = parseDay(params.get(fromKey));
+    const end = parseDay(params.get(toKey));
+    if (!start || !end || start > end) return undefined;
+    const bounds = toActivityWindow(start, end);
+    return [bounds.start.getTime(), bounds.end.getTime()];
+}
+
+/**
+ * Returns a parameter if it is one of the allowed values.
+ */
+function getEnumParam<T extends string>(params: URLSearchParams, key: string, allowed: readonly T[]): T | undefined {
+    const value = params.get(key);
+    return allowed.find(option => option === value);
+}
+
+/**
+ * Returns a comma-separated list parameter, or undefined if it is absent.
+ */
+function getListParam(params: URLSearchParams, key: string): string[] | undefined {
+    const value = params.get(key);
+    if (value === null) return undefined;
+    return value.split(',').filter(item => item.length > 0);
+}
+
+/**
+ * Checks whether a URL fragment links to a dashboard view.
+ */
+export function isViewStateHash(hash: string): boolean {
+    return hash.startsWith(HASH_PREFIX);
+}
+
+/**
+ * Encodes the dashboard filters and views as a URL fragment. Lists and windows are only
+ * written when set, so default views give short links.
+ * @param state The state to encode.
+ * @returns The fragment, including the leading `#`.
+ */
+export function encodeViewStateHash(state: DashboardViewState): string {
+    const { filters, interactiveChart, skillMatrix } = state;
+    const params = new URLSearchParams();
+
+    params.set('range', filters.timeRange);
+    if (filters.timeRange === 'Custom') setWindowParams(params, 'from', 'to', filters.dateWindow);
+    params.set('difficulty', filters.difficulty);
+    if (filters.languages.length > 0) params.set('lang', filters.languages.join(','));
+    if (filters.topics.length > 0) params.set('topic', filters.topics.join(','));
+    if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+    params.set('clock', filters.clockView === 'HourOfDay' ? 'hour' : 'day');
+    params.set('cumulative', filters.cumulativeView);
+
+    params.set('chart', interactiveChart.primaryView);
+    params.set('breakdown', interactiveChart.secondaryView);
+    setWindowParams(params, 'brushFrom', 'brushTo', interactiveChart.brushWindow);
+
+    params.set('skillRange', skillMatrix.timeRange);
+    if (skillMatrix.timeRange === 'Custom') setWindowParams(params, 'skillFrom', 'skillTo', skillMatrix.dateWindow);
+    if (skillMatrix.expandedTopics?.length) params.set('expand', skillMatrix.expandedTopics.join(','));
+
+    return `${HASH_PREFIX}${params.toString()}`;
+}
+
+/**
+ * Applies a fragment written by `encodeViewStateHash` on top of a base state. Single values
+ * that are missing or invalid keep the base value, so a hand-edited link still works; a
+ * missing list or brush means nothing is selected, since neither is written when empty.
+ * @param hash The URL fragment, including the leading `#`.
+ * @param base The state to start from, e.g. the user's saved or default state.
+ * @returns The combined state, or null if the fragment is not a dashboard link.
+ */
+export function decodeViewStateHash(hash: string, base: DashboardViewState): DashboardViewState | null {
+    if (!isViewStateHash(hash)) return null;
+    const params = new URLSearchParams(hash.slice(HASH_PREFIX.length));
+
+    const readRange = (rangeKey: string, fromKey: string, toKey: string, fallback: { timeRange: TimeRange; dateWindow?: StoredDateWindow }) => {
+        const timeRange = getEnumParam(params, rangeKey, TIME_RANGES);
+        if (!timeRange) return fallback;
+        if (timeRange !== 'Custom') return { timeRange, dateWindow: undefined };
+        // A custom range is meaningless without its dates.
+        const dateWindow = getWindowParam(params, fromKey, toKey);
+        return dateWindow ? { timeRange, dateWindow } : fallback;
+    };
+
+    const statuses = getListParam(params, 'status')
+        ?.map(Number)
+        .filter(Number.isInteger);
+    const clockParam = params.get('clock');
+
+    return {
+        filters: {
+            ...base.filters,
+            ...readRange('range', 'from', 'to', base.filters),
+            difficulty: getEnumParam(params, 'difficulty', DIFFICULTIES) || base.filters.difficulty,
+            languages: getListParam(params, 'lang') || [],
+            topics: getListParam(params, 'topic') || [],
+            statuses: statuses || [],
+            clockView: (clockParam && CLOCK_VIEWS.get(clockParam)) || base.filters.clockView,
+            cumulativeView: getEnumParam(params, 'cumulative', CUMULATIVE_VIEWS) || base.filters.cumulativeView,
+        },
+        interactiveChart: {
+            primaryView: getEnumParam(params, 'chart', PRIMARY_VIEWS) || base.interactiveChart.primaryView,
+            secondaryView: getEnumParam(params, 'breakdown', SECONDARY_VIEWS) || base.interactiveChart.secondaryView,
+            brushWindow: getWindowParam(params, 'brushFrom', 'brushTo'),
+        },
+        skillMatrix: {
+            ...base.skillMatrix,
+            ...readRange('skillRange', 'skillFrom', 'skillTo', base.skillMatrix),
+            expandedTopics: getListParam(params, 'expand') || [],
+        },
+    };
+}